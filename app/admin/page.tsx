@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ShieldAlert, Settings } from "lucide-react"
+import { WalletConnector } from "@/components/wallet-connector"
+import { TierAdmin } from "@/components/tier-admin"
+import { useWallet } from "@/hooks/use-wallet"
+import { walletManager } from "@/lib/wallet"
+import { DAT_CONTRACT_ADDRESS, DAT_ABI } from "@/lib/contracts"
+
+export default function AdminPage() {
+  const { isConnected, address } = useWallet()
+  const [owner, setOwner] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  useEffect(() => {
+    if (isConnected) {
+      loadOwner()
+    } else {
+      setOwner(null)
+    }
+  }, [isConnected])
+
+  const loadOwner = async () => {
+    const provider = walletManager.getProvider()
+    if (!provider) return
+
+    setIsChecking(true)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, provider)
+      setOwner(await contract.owner())
+    } catch (error) {
+      console.error("Failed to read contract owner:", error)
+      setOwner(null)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const isOwner = !!owner && !!address && owner.toLowerCase() === address.toLowerCase()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Settings className="h-6 w-6" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Tier Administration</h1>
+              <p className="text-sm text-gray-600">Manage DataAnchoringToken subscription tiers</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/">Back to app</a>
+          </Button>
+        </div>
+
+        <WalletConnector />
+
+        {isConnected && !isChecking && !isOwner && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <ShieldAlert className="h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Owner Access Required</h3>
+              <p className="text-gray-600 text-center">
+                Only the contract owner{owner ? ` (${owner.slice(0, 6)}...${owner.slice(-4)})` : ""} can manage tiers.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {isOwner && <TierAdmin />}
+      </div>
+    </div>
+  )
+}
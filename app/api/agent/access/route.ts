@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireSession } from "@/lib/agent-server"
+import { SecurityManager } from "@/lib/security"
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const address = searchParams.get("address")
+
+  if (!address || !SecurityManager.getInstance().isValidAddress(address)) {
+    return NextResponse.json({ error: "A valid address is required" }, { status: 400 })
+  }
+
+  let forceRefresh = false
+  if (searchParams.get("refresh") === "1") {
+    // A refresh bypasses the access cache and reads the contract, so only the address's own session may force one
+    const session = requireSession(request)
+    if (session instanceof NextResponse) return session
+    if (session.address.toLowerCase() !== address.toLowerCase()) {
+      return NextResponse.json({ error: "Session does not match address" }, { status: 403 })
+    }
+    forceRefresh = true
+  }
+
+  const access = await getServerAgent().verifyAccess(address, forceRefresh)
+  return NextResponse.json(access, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { getServerAgent } from "@/lib/agent-server"
+
+export async function GET(request: Request) {
+  const leaf = new URL(request.url).searchParams.get("leaf")
+  if (!leaf || !/^0x[0-9a-fA-F]{64}$/.test(leaf)) {
+    return NextResponse.json({ error: "A valid leaf hash is required" }, { status: 400 })
+  }
+
+  const result = await getServerAgent().verifyAnchorInclusion(leaf)
+  return NextResponse.json(
+    { status: result.status, rootAnchored: result.verified, proof: result.proof ?? null },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { requireSession } from "@/lib/agent-server"
+import { ApiKeyManager } from "@/lib/api-keys"
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = requireSession(request)
+  if (session instanceof NextResponse) return session
+
+  const { id } = await params
+  const revoked = ApiKeyManager.getInstance().revoke(session.address, id)
+  return NextResponse.json({ success: revoked }, { status: revoked ? 200 : 404 })
+}
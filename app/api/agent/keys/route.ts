@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireSession } from "@/lib/agent-server"
+import { ApiKeyManager } from "@/lib/api-keys"
+
+export async function GET(request: Request) {
+  const session = requireSession(request)
+  if (session instanceof NextResponse) return session
+
+  return NextResponse.json({ keys: ApiKeyManager.getInstance().list(session.address) })
+}
+
+/**
+ * Mint an API key from a wallet-signed request for a token the signer holds
+ */
+export async function POST(request: Request) {
+  let body: { message?: unknown; signature?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (typeof body.message !== "string" || typeof body.signature !== "string") {
+    return NextResponse.json({ error: "message and signature are required" }, { status: 400 })
+  }
+
+  const agent = getServerAgent()
+  const result = await ApiKeyManager.getInstance().create(body.message, body.signature, async (address, tokenId) => {
+    const access = await agent.verifyAccess(address, true)
+    return !!access.tokens?.some((token) => token.tokenId === tokenId && token.isValid)
+  })
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 401 })
+  }
+
+  return NextResponse.json({ key: result.key, record: result.record })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireCaller } from "@/lib/agent-server"
+
+export async function POST(request: Request) {
+  const caller = requireCaller(request)
+  if (caller instanceof NextResponse) return caller
+
+  let body: { query?: unknown; sessionId?: unknown; stream?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (typeof body.query !== "string") {
+    return NextResponse.json({ error: "query is required" }, { status: 400 })
+  }
+
+  const query = body.query
+  const sessionId = typeof body.sessionId === "string" ? body.sessionId : undefined
+  const agent = getServerAgent()
+
+  if (!body.stream) {
+    const result = await agent.processQuery(caller.token, query, sessionId)
+    const status = result.success ? 200 : result.denialReason === "RATE_LIMITED" ? 429 : result.denialReason ? 403 : 400
+    const headers = result.retryAfter ? { "Retry-After": String(result.retryAfter) } : undefined
+    return NextResponse.json(result, { status, headers })
+  }
+
+  // Newline-delimited JSON of QueryStreamEvent; a client disconnect aborts generation
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of agent.processQueryStream(caller.token, query, sessionId, request.signal)) {
+          if (!request.signal.aborted) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+          }
+        }
+      } finally {
+        if (!request.signal.aborted) controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
+  })
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireCaller } from "@/lib/agent-server"
+
+/**
+ * Price a query without running it
+ */
+export async function POST(request: Request) {
+  const caller = requireCaller(request)
+  if (caller instanceof NextResponse) return caller
+
+  let body: { query?: unknown; sessionId?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (typeof body.query !== "string") {
+    return NextResponse.json({ error: "query is required" }, { status: 400 })
+  }
+
+  const sessionId = typeof body.sessionId === "string" ? body.sessionId : undefined
+  const result = await getServerAgent().quoteQuery(caller.token, body.query, sessionId)
+  return NextResponse.json(result, { status: result.success ? 200 : 403 })
+}
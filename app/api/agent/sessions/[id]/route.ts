@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireSession } from "@/lib/agent-server"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = requireSession(request)
+  if (session instanceof NextResponse) return session
+
+  const { id } = await params
+  const messages = getServerAgent().getSessionHistory(session.address, id)
+  if (!messages) {
+    return NextResponse.json({ error: "Conversation session not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ messages })
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = requireSession(request)
+  if (session instanceof NextResponse) return session
+
+  const { id } = await params
+  const deleted = getServerAgent().deleteSession(session.address, id)
+  return NextResponse.json({ success: deleted }, { status: deleted ? 200 : 404 })
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { getServerAgent, requireSession } from "@/lib/agent-server"
+
+export async function GET(request: Request) {
+  const session = requireSession(request)
+  if (session instanceof NextResponse) return session
+
+  return NextResponse.json({ sessions: getServerAgent().listSessions(session.address) })
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { getServerAgent } from "@/lib/agent-server"
+
+export async function GET() {
+  const status = await getServerAgent().getAgentStatus()
+  return NextResponse.json(status)
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { SiweAuthManager } from "@/lib/siwe"
+
+export async function GET() {
+  const nonce = SiweAuthManager.getInstance().issueNonce()
+  return NextResponse.json({ nonce }, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { SiweAuthManager, getBearerToken } from "@/lib/siwe"
+
+export async function GET(request: Request) {
+  const token = getBearerToken(request)
+  const session = token ? SiweAuthManager.getInstance().resolveSession(token) : null
+
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+  }
+
+  return NextResponse.json({ address: session.address, chainId: session.chainId, expiresAt: session.expiresAt })
+}
+
+export async function DELETE(request: Request) {
+  const token = getBearerToken(request)
+  if (token) {
+    SiweAuthManager.getInstance().revokeSession(token)
+  }
+
+  return NextResponse.json({ success: true })
+}
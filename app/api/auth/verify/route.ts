@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getSiweExpectations, SiweAuthManager } from "@/lib/siwe"
+
+export async function POST(request: Request) {
+  let body: { message?: unknown; signature?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (typeof body.message !== "string" || typeof body.signature !== "string") {
+    return NextResponse.json({ error: "message and signature are required" }, { status: 400 })
+  }
+
+  // Bound to configuration: the Host header is caller-controlled and would let a phished signature replay here
+  const result = SiweAuthManager.getInstance().verify(body.message, body.signature, getSiweExpectations())
+
+  if (!result.success || !result.session) {
+    return NextResponse.json({ error: result.error }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    token: result.session.token,
+    address: result.session.address,
+    expiresAt: result.session.expiresAt,
+  })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getServerIndexer } from "@/lib/indexer-server"
+
+export async function GET(request: Request) {
+  const indexer = getServerIndexer()
+  if (!indexer) {
+    return NextResponse.json({ error: "Event indexer is not configured" }, { status: 503 })
+  }
+
+  const fromBlock = Number(new URL(request.url).searchParams.get("fromBlock") || 0)
+  if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+    return NextResponse.json({ error: "fromBlock must be a non-negative integer" }, { status: 400 })
+  }
+
+  const events = await indexer.getEvents(fromBlock)
+  return NextResponse.json(events, { headers: { "Cache-Control": "no-store" } })
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -19,54 +19,133 @@ import {
   ArrowRight,
   Github,
   ExternalLink,
+  MessageSquare,
+  Plus,
+  Trash2,
 } from "lucide-react"
 import { WalletConnector } from "@/components/wallet-connector"
 import { BillingDashboard } from "@/components/billing-dashboard"
+import { ContributorPortal } from "@/components/contributor-portal"
+import { DelegateManager } from "@/components/delegate-manager"
+import { ApiKeyPanel } from "@/components/api-key-panel"
 import { useWallet } from "@/hooks/use-wallet"
-import { AIAgent } from "@/lib/ai-agent"
+import type { AccessControlResult, AIResponse } from "@/lib/ai-agent"
+import { agentClient } from "@/lib/agent-client"
+import { walletManager } from "@/lib/wallet"
+import type { ConversationMessage, ConversationSummary } from "@/lib/conversations"
+import type { UsageQuote } from "@/lib/pricing"
 import { ethers } from "ethers"
-import { DAT_CONTRACT_ADDRESS, DAT_ABI, SUBSCRIPTION_TIERS } from "@/lib/contracts"
+import {
+  DAT_CONTRACT_ADDRESS,
+  DAT_ABI,
+  fetchSubscriptionTiers,
+  fetchUpgradeQuotes,
+  type SubscriptionTierInfo,
+  type SubscriptionToken,
+  type UpgradeQuote,
+} from "@/lib/contracts"
+
+// h:mm:ss for daily caps, m:ss for burst limits
+function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = String(seconds % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`
+}
 
 export default function HomePage() {
-  const { isConnected, address, provider, isValidNetwork } = useWallet()
+  const { isConnected, address, isValidNetwork, sessionToken, isSignedIn, signIn } = useWallet()
 
-  const [aiAgent, setAiAgent] = useState<AIAgent | null>(null)
-  const [subscription, setSubscription] = useState<any>(null)
+  const [subscription, setSubscription] = useState<AccessControlResult | null>(null)
+  const [tiers, setTiers] = useState<SubscriptionTierInfo[]>([])
+  const [topUpUnits, setTopUpUnits] = useState("100")
+  const [upgradeQuotes, setUpgradeQuotes] = useState<UpgradeQuote[]>([])
   const [query, setQuery] = useState("")
   const [response, setResponse] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [usageConsumed, setUsageConsumed] = useState<number | null>(null)
+  const [quote, setQuote] = useState<UsageQuote | null>(null)
+  // Seconds left before a rate-limited user may query again
+  const [retryIn, setRetryIn] = useState(0)
+  const [isVerified, setIsVerified] = useState<boolean | null>(null)
+  const [anchorLeaf, setAnchorLeaf] = useState<string | null>(null)
+  const [anchorStatus, setAnchorStatus] = useState<"pending" | "verified" | "failed" | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [sessionId, setSessionId] = useState(() => crypto.randomUUID())
+  const [sessions, setSessions] = useState<ConversationSummary[]>([])
+  const [history, setHistory] = useState<ConversationMessage[]>([])
   const [activeTab, setActiveTab] = useState("demo")
 
+  // Tier of the token usage is drawn from next; upgrades act on it
+  const subscriptionTierId = subscription?.tokens?.find((token) => token.tokenId === subscription.tokenId)?.tierId
+
   useEffect(() => {
-    if (isConnected && provider && address) {
-      try {
-        const agent = new AIAgent(provider, provider.getSigner?.())
-        setAiAgent(agent)
-        loadSubscription(agent)
-      } catch (error) {
-        console.error("Failed to initialize AI agent:", error)
-        // Initialize without provider for demo purposes
-        const agent = new AIAgent()
-        setAiAgent(agent)
-        loadSubscription(agent)
-      }
+    if (address) {
+      loadSubscription()
     } else {
-      const agent = new AIAgent()
-      setAiAgent(agent)
-      if (address) {
-        loadSubscription(agent)
-      }
+      setSubscription(null)
     }
-  }, [isConnected, provider, address])
+  }, [isConnected, address])
 
-  const loadSubscription = async (agent: AIAgent) => {
+  useEffect(() => {
+    if (isConnected) {
+      loadTiers()
+    }
+  }, [isConnected, isValidNetwork])
+
+  useEffect(() => {
+    const provider = walletManager.getProvider()
+    const currentTier = tiers.find((tier) => tier.id === subscriptionTierId)
+    if (!provider || !currentTier || !subscription?.tokenId) {
+      setUpgradeQuotes([])
+      return
+    }
+
+    fetchUpgradeQuotes(provider, subscription.tokenId, currentTier, tiers)
+      .then(setUpgradeQuotes)
+      .catch((error) => {
+        console.error("Failed to load upgrade quotes:", error)
+        setUpgradeQuotes([])
+      })
+  }, [subscriptionTierId, tiers, subscription?.tokenId, subscription?.expiryTime, subscription?.remainingUsage])
+
+  useEffect(() => {
+    if (sessionToken) {
+      loadSessions(sessionToken)
+    } else {
+      setSessions([])
+    }
+  }, [sessionToken])
+
+  // Debounced dry-run price of the query being typed
+  useEffect(() => {
+    if (!sessionToken || !query.trim() || !subscription?.hasAccess) {
+      setQuote(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      agentClient
+        .quoteQuery(sessionToken, query, sessionId)
+        .then((result) => !cancelled && setQuote(result.quote ?? null))
+        .catch(() => !cancelled && setQuote(null))
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, sessionToken, sessionId, subscription?.hasAccess])
+
+  const loadSubscription = async (forceRefresh = false) => {
     if (!address) return
     try {
-      const subData = await agent.getUsageStats(address)
+      const subData = await agentClient.getAccess(address, forceRefresh, sessionToken)
       setSubscription(subData)
     } catch (error) {
       console.error("Failed to load subscription:", error)
-      // Set mock subscription for demo
       setSubscription({
         hasAccess: false,
         remainingUsage: 0,
@@ -75,12 +154,31 @@ export default function HomePage() {
     }
   }
 
+  const loadTiers = async () => {
+    const provider = walletManager.getProvider()
+    if (!provider) return
+    try {
+      setTiers(await fetchSubscriptionTiers(provider))
+    } catch (error) {
+      console.error("Failed to load subscription tiers:", error)
+      setTiers([])
+    }
+  }
+
+  const loadSessions = async (token: string) => {
+    try {
+      setSessions(await agentClient.listSessions(token))
+    } catch (error) {
+      console.error("Failed to load conversations:", error)
+    }
+  }
+
   const mintDAT = async (tierId: number, price: string) => {
-    if (!aiAgent || !provider) return
+    const signer = walletManager.getSigner()
+    if (!signer) return
 
     setIsLoading(true)
     try {
-      const signer = await provider.getSigner()
       const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
 
       const tx = await contract.mintDAT(tierId, {
@@ -89,7 +187,7 @@ export default function HomePage() {
 
       await tx.wait()
       alert("DAT minted successfully! You now have access to the AI agent.")
-      if (aiAgent) loadSubscription(aiAgent)
+      loadSubscription(true)
     } catch (error) {
       console.error("Minting error:", error)
       alert("Failed to mint DAT. Please try again.")
@@ -97,22 +195,249 @@ export default function HomePage() {
     setIsLoading(false)
   }
 
+  const renewSubscription = async (tokenId: string, tier: SubscriptionTierInfo) => {
+    const signer = walletManager.getSigner()
+    if (!signer) return
+
+    setIsLoading(true)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await contract.renew(tokenId, { value: ethers.parseEther(tier.price) })
+      await tx.wait()
+      alert(`Subscription renewed for another ${Math.round(tier.duration / 86400)} days.`)
+      loadSubscription(true)
+    } catch (error) {
+      console.error("Renewal error:", error)
+      alert("Failed to renew subscription. Please try again.")
+    }
+    setIsLoading(false)
+  }
+
+  const topUpUsage = async (tokenId: string, tier: SubscriptionTierInfo) => {
+    const signer = walletManager.getSigner()
+    const units = Number.parseInt(topUpUnits, 10)
+    if (!signer || !(units > 0)) return
+
+    setIsLoading(true)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await contract.topUp(tokenId, units, {
+        value: ethers.parseEther(tier.unitPrice) * BigInt(units),
+      })
+      await tx.wait()
+      alert(`Added ${units} queries to your subscription.`)
+      loadSubscription(true)
+    } catch (error) {
+      console.error("Top-up error:", error)
+      alert("Failed to top up usage. Please try again.")
+    }
+    setIsLoading(false)
+  }
+
+  const upgradeSubscription = async (quote: UpgradeQuote) => {
+    const signer = walletManager.getSigner()
+    if (!signer || !subscription?.tokenId) return
+
+    setIsLoading(true)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await contract.upgradeTier(subscription.tokenId, quote.tier.id, { value: quote.value })
+      await tx.wait()
+      alert(`Subscription upgraded to ${quote.tier.name}.`)
+      // Forced refresh invalidates the agent's cached access level for this address
+      loadSubscription(true)
+    } catch (error) {
+      console.error("Upgrade error:", error)
+      alert("Failed to upgrade subscription. Please try again.")
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    if (retryIn <= 0) return
+
+    const timer = setTimeout(() => setRetryIn((seconds) => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [retryIn])
+
+  const subscriptionTier = tiers.find((tier) => tier.id === subscriptionTierId)
+
+  // Held tokens with renew and top-up actions; shown with or without access, since expired or used-up
+  // tokens are exactly the ones that need them. Top-ups require an unexpired token.
+  const canTopUp = (token: SubscriptionToken) =>
+    token.expiryTime * 1000 > Date.now() && Number(tiers.find((tier) => tier.id === token.tierId)?.unitPrice ?? 0) > 0
+  const heldTokens = subscription?.tokens && subscription.tokens.length > 0 && (
+    <div className="space-y-2 pt-2 border-t text-xs">
+      <div className="font-medium text-gray-600">Tokens, drawn down soonest-expiring first</div>
+      {subscription.tokens.map((token) => {
+        const tier = tiers.find((candidate) => candidate.id === token.tierId)
+        return (
+          <div key={token.tokenId} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className={token.isValid ? "" : "text-gray-400"}>
+                #{token.tokenId} {token.tierName}
+                {token.tokenId === subscription.tokenId && (
+                  <Badge variant="secondary" className="ml-1">
+                    In use
+                  </Badge>
+                )}
+              </span>
+              <span className={token.isValid ? "text-gray-600" : "text-gray-400"}>
+                {token.isValid
+                  ? `${token.remainingUsage} left, until ${new Date(token.expiryTime * 1000).toLocaleDateString()}`
+                  : token.expiryTime * 1000 < Date.now()
+                    ? "Expired"
+                    : "Used up"}
+              </span>
+            </div>
+            {tier && (tier.active || canTopUp(token)) && (
+              <div className="flex justify-end gap-2">
+                {tier.active && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => renewSubscription(token.tokenId, tier)}
+                    disabled={isLoading || !isValidNetwork}
+                  >
+                    Renew for {tier.price} TON
+                  </Button>
+                )}
+                {canTopUp(token) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => topUpUsage(token.tokenId, tier)}
+                    disabled={isLoading || !isValidNetwork || !(Number(topUpUnits) > 0)}
+                  >
+                    Top Up ({tier.unitPrice} TON/query)
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+      {subscription.tokens.some(canTopUp) && (
+        <div className="flex items-center gap-2">
+          <span className="text-gray-600">Queries per top-up:</span>
+          <Input
+            type="number"
+            min="1"
+            value={topUpUnits}
+            onChange={(e) => setTopUpUnits(e.target.value)}
+            className="h-8 w-24"
+          />
+        </div>
+      )}
+    </div>
+  )
+
   const processQuery = async () => {
-    if (!aiAgent || !query.trim() || !address) return
+    if (!query.trim() || !address || !sessionToken || retryIn > 0) return
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     setIsLoading(true)
+    setIsStreaming(true)
     setResponse("")
+    setUsageConsumed(null)
+    setIsVerified(null)
+    setAnchorLeaf(null)
+    setAnchorStatus(null)
+    setHistory((await agentClient.getSessionHistory(sessionToken, sessionId)) ?? [])
 
-    const result = await aiAgent.processQuery(address, query)
+    const showResult = async (result: AIResponse, consumed: number) => {
+      setUsageConsumed(consumed)
+      setIsVerified(
+        result.verificationProof ? await agentClient.verifyResponse(result.verificationProof, result.content, query) : false,
+      )
+      setAnchorLeaf(result.anchor?.leaf ?? null)
+      setAnchorStatus(result.anchor ? "pending" : null)
+    }
 
-    if (result.success) {
-      setResponse(result.response || "")
-      if (aiAgent) loadSubscription(aiAgent)
-    } else {
-      setResponse(`Error: ${result.error}`)
+    try {
+      if (subscription?.capabilities?.streamingAllowed === false) {
+        // Tiers without streaming get the whole response at once
+        const result = await agentClient.query(sessionToken, query, sessionId)
+        if (result.success && result.response) {
+          setResponse(result.response.content)
+          await showResult(result.response, result.usageConsumed ?? 0)
+        } else {
+          setResponse(`Error: ${result.error}`)
+          setRetryIn(result.retryAfter ?? 0)
+        }
+      } else {
+        for await (const event of agentClient.queryStream(sessionToken, query, sessionId, abortController.signal)) {
+          if (event.type === "token") {
+            setResponse((prev) => prev + event.content)
+          } else if (event.type === "done") {
+            await showResult(event.response, event.usageConsumed)
+          } else {
+            setResponse(`Error: ${event.error}`)
+            setRetryIn(event.retryAfter ?? 0)
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Query stream error:", error)
+      setResponse("Error: Failed to process query. Please try again later.")
     }
 
+    abortControllerRef.current = null
+    setIsStreaming(false)
     setIsLoading(false)
+    loadSessions(sessionToken)
+    loadSubscription(true)
+  }
+
+  const handleSignIn = async () => {
+    const result = await signIn()
+    if (!result.success) {
+      alert(result.error || "Failed to sign in. Please try again.")
+    }
+  }
+
+  const stopQuery = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const checkAnchorInclusion = async () => {
+    if (!anchorLeaf) return
+
+    const result = await agentClient.verifyAnchorInclusion(anchorLeaf)
+    if (result.status === "pending") {
+      setAnchorStatus("pending")
+    } else {
+      setAnchorStatus(result.verified ? "verified" : "failed")
+    }
+  }
+
+  const startNewConversation = () => {
+    setSessionId(crypto.randomUUID())
+    setHistory([])
+    setResponse("")
+    setUsageConsumed(null)
+  }
+
+  const resumeConversation = async (id: string) => {
+    if (!sessionToken) return
+
+    const messages = await agentClient.getSessionHistory(sessionToken, id)
+    if (!messages) return
+
+    setSessionId(id)
+    setHistory(messages)
+    setResponse("")
+    setUsageConsumed(null)
+  }
+
+  const deleteConversation = async (id: string) => {
+    if (!sessionToken) return
+
+    await agentClient.deleteSession(sessionToken, id)
+    loadSessions(sessionToken)
+    if (id === sessionId) startNewConversation()
   }
 
   const demoQueries = [
@@ -141,7 +466,7 @@ export default function HomePage() {
             <div className="flex items-center gap-4">
               <Badge variant="outline" className="hidden md:flex">
                 <Shield className="h-3 w-3 mr-1" />
-                ZKP Verified
+                Signed Responses
               </Badge>
               <Button variant="outline" size="sm" asChild>
                 <a href="https://github.com" target="_blank" rel="noopener noreferrer">
@@ -165,9 +490,10 @@ export default function HomePage() {
               </p>
             </div>
 
-            <TabsList className="grid w-full sm:w-auto grid-cols-4">
+            <TabsList className="grid w-full sm:w-auto grid-cols-5">
               <TabsTrigger value="demo">Demo</TabsTrigger>
               <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
+              <TabsTrigger value="earnings">Earnings</TabsTrigger>
               <TabsTrigger value="docs">Docs</TabsTrigger>
               <TabsTrigger value="about">About</TabsTrigger>
             </TabsList>
@@ -201,51 +527,172 @@ export default function HomePage() {
                               <span className="text-gray-600">Tier:</span>
                               <span className="font-medium">{subscription.tierName}</span>
                             </div>
+                            {subscription.delegation && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-600">Delegated by:</span>
+                                <span className="font-medium font-mono">
+                                  {subscription.delegation.owner.slice(0, 6)}...{subscription.delegation.owner.slice(-4)}
+                                </span>
+                              </div>
+                            )}
                             <div className="flex justify-between">
                               <span className="text-gray-600">Remaining:</span>
-                              <span className="font-medium">{subscription.remainingUsage} queries</span>
+                              <span className="font-medium">
+                                {subscription.remainingUsage} queries
+                                {subscription.delegation
+                                  ? ` (of ${subscription.delegation.quotaCap} delegated)`
+                                  : (subscription.tokens?.length ?? 0) > 1 && " (all tokens)"}
+                              </span>
                             </div>
                             <div className="flex justify-between">
                               <span className="text-gray-600">Expires:</span>
                               <span className="font-medium">
-                                {new Date(subscription.expiryTime * 1000).toLocaleDateString()}
+                                {new Date((subscription.expiryTime ?? 0) * 1000).toLocaleDateString()}
                               </span>
                             </div>
+                            {subscription.capabilities && (
+                              <div className="flex justify-between">
+                                <span className="text-gray-600">Limits:</span>
+                                <span className="font-medium capitalize">
+                                  {subscription.capabilities.accessLevel}, {subscription.capabilities.maxQueryLength} chars
+                                  {subscription.capabilities.dailyCap > 0 && `, ${subscription.capabilities.dailyCap}/day`}
+                                </span>
+                              </div>
+                            )}
                           </div>
+
+                          {heldTokens}
+
+                          {subscriptionTier && upgradeQuotes.length > 0 && (
+                            <div className="space-y-2 pt-2 border-t">
+                              {upgradeQuotes.map((quote) => (
+                                <div key={quote.tier.id} className="flex items-center justify-between gap-2">
+                                  <div className="text-xs text-gray-600">
+                                    <div className="font-medium text-gray-900">{quote.tier.name}</div>
+                                    {quote.tier.price} TON - {quote.credit} TON credit
+                                    {quote.carriedUsage > 0 && <div>Keeps {quote.carriedUsage} remaining queries</div>}
+                                    <div>Sends up to {ethers.formatEther(quote.value)} TON, the rest is refunded</div>
+                                  </div>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => upgradeSubscription(quote)}
+                                    disabled={isLoading || !isValidNetwork}
+                                  >
+                                    Upgrade for {quote.cost} TON
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ) : (
                         <div className="space-y-4">
+                          {subscription?.denialReason && subscription.denialReason !== "NO_SUBSCRIPTION" && (
+                            <Alert variant="destructive">
+                              <AlertDescription>
+                                Access check failed ({subscription.denialReason.replace("_", " ").toLowerCase()}).
+                                Access is denied until the subscription can be verified.
+                              </AlertDescription>
+                            </Alert>
+                          )}
                           <Alert>
-                            <AlertDescription>Purchase a DAT subscription to access the AI agent</AlertDescription>
+                            <AlertDescription>
+                              {subscription?.tokens?.length
+                                ? "Your tokens are expired or used up. Renew or top up one below, or purchase a new subscription."
+                                : "Purchase a DAT subscription to access the AI agent"}
+                            </AlertDescription>
                           </Alert>
+                          {heldTokens}
 
                           <div className="space-y-3">
-                            {Object.values(SUBSCRIPTION_TIERS).map((tier) => (
-                              <Card key={tier.id} className="border-2 hover:border-blue-200 transition-colors">
-                                <CardContent className="p-4">
-                                  <div className="flex items-center justify-between mb-2">
-                                    <h4 className="font-semibold">{tier.name}</h4>
-                                    <Badge variant="outline">{tier.quota} queries</Badge>
-                                  </div>
-                                  <div className="flex items-center justify-between">
-                                    <span className="text-2xl font-bold text-blue-600">{tier.price} TON</span>
-                                    <Button
-                                      onClick={() => mintDAT(tier.id, tier.price)}
-                                      disabled={isLoading || !isValidNetwork}
-                                      size="sm"
-                                    >
-                                      {isLoading ? "Minting..." : "Purchase"}
-                                    </Button>
-                                  </div>
-                                </CardContent>
-                              </Card>
-                            ))}
+                            {!tiers.some((tier) => tier.active) && (
+                              <p className="text-sm text-gray-600">No subscription tiers are available for purchase.</p>
+                            )}
+                            {tiers
+                              .filter((tier) => tier.active)
+                              .map((tier) => (
+                                <Card key={tier.id} className="border-2 hover:border-blue-200 transition-colors">
+                                  <CardContent className="p-4">
+                                    <div className="flex items-center justify-between mb-2">
+                                      <h4 className="font-semibold">{tier.name}</h4>
+                                      <div className="flex gap-1">
+                                        {tier.soulbound && <Badge variant="secondary">Non-transferable</Badge>}
+                                        <Badge variant="outline">{tier.quota} queries</Badge>
+                                      </div>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                      <span className="text-2xl font-bold text-blue-600">{tier.price} TON</span>
+                                      <Button
+                                        onClick={() => mintDAT(tier.id, tier.price)}
+                                        disabled={isLoading || !isValidNetwork}
+                                        size="sm"
+                                      >
+                                        {isLoading ? "Minting..." : "Purchase"}
+                                      </Button>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                              ))}
                           </div>
                         </div>
                       )}
                     </CardContent>
                   </Card>
                 )}
+
+                {/* Conversations */}
+                {isConnected && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                          <MessageSquare className="h-5 w-5" />
+                          Conversations
+                        </span>
+                        <Button variant="outline" size="sm" onClick={startNewConversation} disabled={isStreaming}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          New
+                        </Button>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {sessions.length === 0 ? (
+                        <p className="text-sm text-gray-600">No conversations yet</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {sessions.map((session) => (
+                            <div
+                              key={session.id}
+                              className={`flex items-center justify-between gap-2 p-2 border rounded text-sm ${
+                                session.id === sessionId ? "border-blue-300 bg-blue-50" : ""
+                              }`}
+                            >
+                              <button
+                                className="flex-1 text-left truncate"
+                                onClick={() => resumeConversation(session.id)}
+                                disabled={isStreaming}
+                              >
+                                <div className="font-medium truncate">{session.title}</div>
+                                <div className="text-xs text-gray-500">
+                                  {session.messageCount / 2} turns • {new Date(session.updatedAt).toLocaleString()}
+                                </div>
+                              </button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteConversation(session.id)}
+                                disabled={isStreaming}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
               </div>
 
               {/* Right Column - AI Interface */}
@@ -289,20 +736,61 @@ export default function HomePage() {
                         onKeyPress={(e) => e.key === "Enter" && processQuery()}
                         className="flex-1"
                       />
-                      <Button
-                        onClick={processQuery}
-                        disabled={isLoading || !query.trim() || !subscription?.hasAccess}
-                        className="px-6"
-                      >
-                        {isLoading ? (
-                          "Processing..."
-                        ) : (
-                          <>
-                            Ask AI <ArrowRight className="h-4 w-4 ml-1" />
-                          </>
-                        )}
-                      </Button>
+                      {isStreaming ? (
+                        <Button onClick={stopQuery} variant="outline" className="px-6">
+                          Stop
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={processQuery}
+                          disabled={
+                            isLoading || retryIn > 0 || !query.trim() || !subscription?.hasAccess || !isSignedIn
+                          }
+                          className="px-6"
+                        >
+                          {isLoading ? (
+                            "Processing..."
+                          ) : (
+                            <>
+                              Ask AI <ArrowRight className="h-4 w-4 ml-1" />
+                            </>
+                          )}
+                        </Button>
+                      )}
                     </div>
+                    {retryIn > 0 && (
+                      <div className="text-xs text-orange-600">
+                        Rate limited - you can query again in {formatCountdown(retryIn)}
+                      </div>
+                    )}
+                    {quote && !isLoading && (
+                      <div className="text-xs text-gray-500">
+                        Estimated cost: {quote.units} {quote.units === 1 ? "query" : "queries"} ({quote.inputTokens}{" "}
+                        input tokens, ~{quote.outputTokens} output tokens on {quote.modelId})
+                        {subscription?.remainingUsage !== undefined &&
+                          quote.units > subscription.remainingUsage &&
+                          " - exceeds your remaining quota, the answer may be shortened"}
+                      </div>
+                    )}
+
+                    {/* Conversation History */}
+                    {history.length > 0 && (
+                      <div className="space-y-2 max-h-80 overflow-y-auto">
+                        {history.map((message, index) => (
+                          <div
+                            key={index}
+                            className={`p-3 rounded-lg text-sm whitespace-pre-wrap ${
+                              message.role === "user" ? "bg-gray-100 text-gray-900" : "bg-blue-50 text-gray-800"
+                            }`}
+                          >
+                            <div className="text-xs font-medium text-gray-500 mb-1">
+                              {message.role === "user" ? "You" : "AI Agent"}
+                            </div>
+                            {message.content}
+                          </div>
+                        ))}
+                      </div>
+                    )}
 
                     {/* Response */}
                     {response && (
@@ -314,25 +802,68 @@ export default function HomePage() {
                           </CardTitle>
                         </CardHeader>
                         <CardContent>
-                          <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">{response}</p>
+                          <p className="text-gray-800 whitespace-pre-wrap leading-relaxed">
+                            {response}
+                            {isStreaming && <span className="ml-0.5 animate-pulse">▍</span>}
+                          </p>
                           <div className="mt-4 flex items-center gap-4 text-xs text-gray-500">
-                            <div className="flex items-center gap-1">
-                              <Shield className="h-3 w-3" />
-                              ZKP Verified
-                            </div>
+                            {isVerified !== null && (
+                              <div
+                                className={`flex items-center gap-1 ${isVerified ? "text-green-600" : "text-red-600"}`}
+                                title={`Agent signer: ${agentClient.getAgentAddress()}`}
+                              >
+                                <Shield className="h-3 w-3" />
+                                {isVerified ? "Signature Verified" : "Signature Invalid"}
+                              </div>
+                            )}
                             <div className="flex items-center gap-1">
                               <Zap className="h-3 w-3" />
                               TEE Secured
                             </div>
-                            <div className="flex items-center gap-1">
-                              <CheckCircle className="h-3 w-3" />
-                              On-chain Logged
-                            </div>
+                            {anchorStatus && (
+                              <button
+                                className={`flex items-center gap-1 ${
+                                  anchorStatus === "verified"
+                                    ? "text-green-600"
+                                    : anchorStatus === "failed"
+                                      ? "text-red-600"
+                                      : ""
+                                }`}
+                                onClick={checkAnchorInclusion}
+                                title="Check Merkle inclusion against the anchored root"
+                              >
+                                <CheckCircle className="h-3 w-3" />
+                                {anchorStatus === "verified"
+                                  ? "On-chain Anchored"
+                                  : anchorStatus === "failed"
+                                    ? "Anchor Proof Invalid"
+                                    : "Anchoring Pending"}
+                              </button>
+                            )}
+                            {usageConsumed !== null && (
+                              <div className="flex items-center gap-1">
+                                <Coins className="h-3 w-3" />
+                                {usageConsumed} used
+                              </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
                     )}
 
+                    {/* Sign-In Required Message */}
+                    {isConnected && !isSignedIn && (
+                      <Alert>
+                        <Wallet className="h-4 w-4" />
+                        <AlertDescription className="flex items-center justify-between gap-2">
+                          Sign in with your wallet to spend your subscription quota
+                          <Button size="sm" variant="outline" onClick={handleSignIn}>
+                            Sign-In with Ethereum
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     {/* Access Required Message */}
                     {!subscription?.hasAccess && isConnected && (
                       <Alert>
@@ -380,7 +911,13 @@ export default function HomePage() {
           {/* Dashboard Tab */}
           <TabsContent value="dashboard" className="space-y-6">
             {isConnected ? (
-              <BillingDashboard userAddress={address} isAdmin={false} />
+              <>
+                <BillingDashboard userAddress={address ?? undefined} isAdmin={false} sessionToken={sessionToken} />
+                {address && <DelegateManager address={address} />}
+                {address && (
+                  <ApiKeyPanel address={address} sessionToken={sessionToken} tokens={subscription?.tokens ?? []} />
+                )}
+              </>
             ) : (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12">
@@ -395,6 +932,24 @@ export default function HomePage() {
             )}
           </TabsContent>
 
+          {/* Contributor Earnings Tab */}
+          <TabsContent value="earnings" className="space-y-6">
+            {isConnected && address ? (
+              <ContributorPortal address={address} />
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Wallet className="h-12 w-12 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">Connect Wallet Required</h3>
+                  <p className="text-gray-600 text-center mb-4">
+                    Connect your contributor wallet to view and claim your revenue share
+                  </p>
+                  <Button onClick={() => setActiveTab("demo")}>Go to Demo Tab</Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           {/* Documentation Tab */}
           <TabsContent value="docs" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -464,9 +1019,11 @@ export default function HomePage() {
                     <div>
                       <h4 className="font-medium flex items-center gap-2">
                         <Zap className="h-4 w-4" />
-                        Zero-Knowledge Proofs
+                        Response Attestations
                       </h4>
-                      <p className="text-sm text-gray-600">Every AI response is cryptographically verifiable</p>
+                      <p className="text-sm text-gray-600">
+                        Every AI response carries an EIP-712 signature from the agent key
+                      </p>
                     </div>
                     <div>
                       <h4 className="font-medium flex items-center gap-2">
@@ -504,9 +1061,57 @@ export default function HomePage() {
                       <div>
                         <code>hasValidSubscription(address user)</code> - Check access
                       </div>
+                      <div>
+                        <code>getUserSubscriptions(address user)</code> - List every held token; usage drains the
+                        soonest-expiring first
+                      </div>
                       <div>
                         <code>consumeUsage(address user, uint256 amount)</code> - Track usage
                       </div>
+                      <div>
+                        <code>consumeUsageBatch(address[] users, uint256[] amounts)</code> - Settle batched usage
+                      </div>
+                      <div>
+                        <code>anchorBatch(bytes32 root, uint256 count)</code> - Anchor response commitments
+                      </div>
+                      <div>
+                        <code>renew(uint256 tokenId)</code> / <code>topUp(uint256 tokenId, uint256 units)</code> - Extend
+                        or add usage to an existing token
+                      </div>
+                      <div>
+                        <code>upgradeTier(uint256 tokenId, uint256 newTierId)</code> - Move to a higher tier, credited for
+                        unused time and quota, keeping top-up usage; overpayment is refunded
+                      </div>
+                      <div>
+                        <code>claimRevenue()</code> - Withdraw accrued contributor revenue
+                      </div>
+                      <div>
+                        <code>updateSubscriptionTier(uint256 tierId, ...)</code> /{" "}
+                        <code>setTierActive(uint256 tierId, bool active)</code> - Manage tiers (owner, see /admin)
+                      </div>
+                      <div>
+                        <code>setTierCapabilities(uint256 tierId, TierCapabilities)</code> - Set access level, query
+                        length, daily cap, streaming and allowed models
+                      </div>
+                      <div>
+                        <code>setTierSoulbound(uint256 tierId, bool soulbound)</code> - Make a tier's tokens
+                        non-transferable
+                      </div>
+                      <div>
+                        <code>setDelegate(uint256 tokenId, address delegate, uint256 quotaCap, uint256 expiry)</code> -
+                        Share a token's quota with another address up to a cap
+                      </div>
+                      <div>
+                        <code>POST /api/agent/quote</code> - Price a query in usage units without running it
+                      </div>
+                      <div>
+                        <code>GET /api/agent/usage</code> - Prompt and completion tokens, model and units of each
+                        of your queries
+                      </div>
+                      <div>
+                        <code>POST /api/agent/query</code> with <code>X-API-Key</code> - Query from a backend service
+                        using an API key minted in the dashboard
+                      </div>
                     </div>
                   </div>
 
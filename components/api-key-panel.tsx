@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { KeyRound, RefreshCw } from "lucide-react"
+import { agentClient } from "@/lib/agent-client"
+import { buildApiKeyMessage, type ApiKeyRecord } from "@/lib/api-keys"
+import type { SubscriptionToken } from "@/lib/contracts"
+import { walletManager } from "@/lib/wallet"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface ApiKeyPanelProps {
+  address: string
+  sessionToken: string | null
+  tokens: SubscriptionToken[]
+}
+
+/**
+ * Mint, list and revoke API keys for calling the agent from backend services without a wallet
+ */
+export function ApiKeyPanel({ address, sessionToken, tokens }: ApiKeyPanelProps) {
+  const validTokens = tokens.filter((token) => token.isValid)
+  const [keys, setKeys] = useState<ApiKeyRecord[]>([])
+  const [tokenId, setTokenId] = useState("")
+  const [label, setLabel] = useState("")
+  const [quotaCap, setQuotaCap] = useState("100")
+  const [days, setDays] = useState("30")
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null)
+
+  useEffect(() => {
+    loadKeys()
+  }, [address, sessionToken])
+
+  useEffect(() => {
+    if (!validTokens.some((token) => token.tokenId === tokenId)) {
+      setTokenId(validTokens[0]?.tokenId ?? "")
+    }
+  }, [tokens])
+
+  const loadKeys = async () => {
+    if (!sessionToken) {
+      setKeys([])
+      return
+    }
+
+    try {
+      setKeys(await agentClient.listApiKeys(sessionToken))
+    } catch (error) {
+      console.error("Failed to load API keys:", error)
+    }
+  }
+
+  const createKey = async () => {
+    const signer = walletManager.getSigner()
+    if (!signer) {
+      setStatus({ success: false, message: "Connect your wallet first." })
+      return
+    }
+    if (!tokenId || !(Number(quotaCap) > 0) || !(Number(days) > 0)) {
+      setStatus({ success: false, message: "Choose a token, a quota cap and a lifetime." })
+      return
+    }
+
+    setIsWorking(true)
+    setStatus(null)
+    setCreatedKey(null)
+    try {
+      const nonceRes = await fetch("/api/auth/nonce")
+      const { nonce } = await nonceRes.json()
+
+      const message = buildApiKeyMessage({
+        address: ethers.getAddress(address),
+        tokenId,
+        label: label.trim(),
+        quotaCap: Math.floor(Number(quotaCap)),
+        expiresAt: new Date(Date.now() + Number(days) * DAY_MS).toISOString(),
+        nonce,
+      })
+      const signature = await signer.signMessage(message)
+      const { key } = await agentClient.createApiKey(message, signature)
+
+      setCreatedKey(key)
+      setLabel("")
+      await loadKeys()
+    } catch (error: any) {
+      console.error("Failed to create API key:", error)
+      const message = error?.code === 4001 ? "Signature rejected by user" : error?.message || "API key creation failed"
+      setStatus({ success: false, message })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const revokeKey = async (key: ApiKeyRecord) => {
+    if (!sessionToken) return
+
+    setIsWorking(true)
+    try {
+      const revoked = await agentClient.revokeApiKey(sessionToken, key.id)
+      setStatus(revoked ? null : { success: false, message: "API key could not be revoked." })
+      await loadKeys()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const keyStatus = (key: ApiKeyRecord) => {
+    if (key.revokedAt) return "Revoked"
+    if (key.expiresAt < Date.now()) return "Expired"
+    if (key.used >= key.quotaCap) return "Used up"
+    return "Active"
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Query the agent from backend services with the <code>X-API-Key</code> header. Keys spend the chosen
+              token's quota up to their own cap and stop working if the token is transferred or runs out.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadKeys} disabled={!sessionToken}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && (
+          <Alert variant={status.success ? "default" : "destructive"}>
+            <AlertDescription className="break-all">{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {createdKey && (
+          <Alert>
+            <AlertDescription className="space-y-1">
+              <div>Copy this key now, it will not be shown again:</div>
+              <code className="block break-all text-xs">{createdKey}</code>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!sessionToken && (
+          <p className="text-sm text-muted-foreground">Sign in with your wallet to list and revoke your keys.</p>
+        )}
+
+        {keys.map((key) => (
+          <div key={key.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{key.label || `Key ${key.id}`}</span>
+                <Badge variant={keyStatus(key) === "Active" ? "default" : "secondary"}>{keyStatus(key)}</Badge>
+              </div>
+              <div className="text-muted-foreground">
+                Token #{key.tokenId}, {key.used} / {key.quotaCap} used, expires{" "}
+                {new Date(key.expiresAt).toLocaleDateString()}
+              </div>
+            </div>
+            {keyStatus(key) === "Active" && (
+              <Button variant="outline" size="sm" onClick={() => revokeKey(key)} disabled={isWorking}>
+                Revoke
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {validTokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You need a valid token to create API keys.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end pt-2 border-t">
+            <div className="space-y-1">
+              <Label htmlFor="api-key-token">Token</Label>
+              <Select value={tokenId} onValueChange={setTokenId}>
+                <SelectTrigger id="api-key-token">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {validTokens.map((token) => (
+                    <SelectItem key={token.tokenId} value={token.tokenId}>
+                      #{token.tokenId} {token.tierName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="api-key-label">Label</Label>
+              <Input
+                id="api-key-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value.replace(/\n/g, " "))}
+                placeholder="backend"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="api-key-cap">Quota cap</Label>
+              <Input
+                id="api-key-cap"
+                type="number"
+                min="1"
+                value={quotaCap}
+                onChange={(e) => setQuotaCap(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="api-key-days">Days</Label>
+              <Input id="api-key-days" type="number" min="1" value={days} onChange={(e) => setDays(e.target.value)} />
+            </div>
+          </div>
+        )}
+        {validTokens.length > 0 && (
+          <Button size="sm" onClick={createKey} disabled={isWorking}>
+            {isWorking ? "Signing..." : "Create API Key"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
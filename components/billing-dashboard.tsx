@@ -18,49 +18,53 @@ import {
   Cell,
 } from "recharts"
 import { DollarSign, Users, Activity, TrendingUp, RefreshCw, Download, Eye } from "lucide-react"
-import { BillingManager, type BillingStats, type UserBilling } from "@/lib/billing"
-import { useWallet } from "@/hooks/use-wallet"
+import { BillingManager, usageEventsFromRecords, type BillingStats, type UsageEvent, type UserBilling } from "@/lib/billing"
+import { ApiEventSource } from "@/lib/dat-events"
+import { agentClient } from "@/lib/agent-client"
 
 const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8"]
 
 interface BillingDashboardProps {
   userAddress?: string
   isAdmin?: boolean
+  // SIWE session for loading per-query metering from the agent
+  sessionToken?: string | null
 }
 
-export function BillingDashboard({ userAddress, isAdmin = false }: BillingDashboardProps) {
-  const { provider } = useWallet()
+export function BillingDashboard({ userAddress, isAdmin = false, sessionToken }: BillingDashboardProps) {
   const [billingManager, setBillingManager] = useState<BillingManager | null>(null)
   const [billingStats, setBillingStats] = useState<BillingStats | null>(null)
   const [userBilling, setUserBilling] = useState<UserBilling | null>(null)
+  const [queryUsage, setQueryUsage] = useState<UsageEvent[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [realTimeEvents, setRealTimeEvents] = useState<any[]>([])
 
   useEffect(() => {
-    if (provider) {
-      const manager = new BillingManager(provider)
-      setBillingManager(manager)
-      loadBillingData(manager)
+    // Events come from the server-side indexer rather than the wallet's RPC
+    const manager = new BillingManager(new ApiEventSource())
+    setBillingManager(manager)
+    loadBillingData(manager)
 
-      // Subscribe to real-time events
-      const unsubscribe = manager.subscribeToEvents((event) => {
-        setRealTimeEvents((prev) => [event, ...prev.slice(0, 9)]) // Keep last 10 events
-      })
+    // Subscribe to real-time events
+    const unsubscribe = manager.subscribeToEvents((event) => {
+      setRealTimeEvents((prev) => [event, ...prev.slice(0, 9)]) // Keep last 10 events
+    })
 
-      return unsubscribe
-    }
-  }, [provider, userAddress])
+    return unsubscribe
+  }, [userAddress, sessionToken])
 
   const loadBillingData = async (manager: BillingManager) => {
     setIsLoading(true)
     try {
-      const [stats, userBill] = await Promise.all([
+      const [stats, userBill, records] = await Promise.all([
         isAdmin ? manager.getBillingStats() : Promise.resolve(null),
         userAddress ? manager.getUserBilling(userAddress) : Promise.resolve(null),
+        sessionToken ? agentClient.getUsageRecords(sessionToken).catch(() => []) : Promise.resolve([]),
       ])
 
       setBillingStats(stats)
       setUserBilling(userBill)
+      setQueryUsage(usageEventsFromRecords(records))
     } catch (error) {
       console.error("Error loading billing data:", error)
     } finally {
@@ -294,6 +298,41 @@ export function BillingDashboard({ userAddress, isAdmin = false }: BillingDashbo
               </Card>
             </>
           )}
+
+          {/* Per-query token metering */}
+          {queryUsage.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Query Metering</CardTitle>
+                <CardDescription>
+                  {queryUsage.reduce((sum, event) => sum + (event.promptTokens ?? 0), 0).toLocaleString()} prompt and{" "}
+                  {queryUsage.reduce((sum, event) => sum + (event.completionTokens ?? 0), 0).toLocaleString()}{" "}
+                  completion tokens across {queryUsage.length} queries
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {queryUsage.map((event) => (
+                    <div key={event.id} className="flex items-center justify-between p-3 border rounded text-sm">
+                      <div>
+                        <div className="font-medium">{event.modelId}</div>
+                        <div className="text-muted-foreground">
+                          {new Date(event.timestamp * 1000).toLocaleString()}, token #{event.tokenId}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {event.queryType === "ai_query_aborted" && <Badge variant="secondary">aborted</Badge>}
+                        <span className="text-muted-foreground">
+                          {event.promptTokens} in / {event.completionTokens} out
+                        </span>
+                        <span className="font-medium">{event.usageAmount} units</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         {/* Revenue Tab */}
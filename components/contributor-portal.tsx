@@ -0,0 +1,230 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Coins, RefreshCw, Loader2 } from "lucide-react"
+import { RevenueAnalytics } from "@/components/revenue-analytics"
+import { BillingManager, type ContributorEarnings } from "@/lib/billing"
+import { ApiEventSource } from "@/lib/dat-events"
+import { DAT_CONTRACT_ADDRESS, DAT_ABI, fetchContributorTiers, type ContributorTier } from "@/lib/contracts"
+import { walletManager } from "@/lib/wallet"
+
+interface ContributorPortalProps {
+  address: string
+}
+
+export function ContributorPortal({ address }: ContributorPortalProps) {
+  const [billingManager] = useState(() => new BillingManager(new ApiEventSource()))
+  const [earnings, setEarnings] = useState<ContributorEarnings | null>(null)
+  const [claimable, setClaimable] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isClaiming, setIsClaiming] = useState(false)
+  const [claimStatus, setClaimStatus] = useState<{ success: boolean; message: string } | null>(null)
+
+  useEffect(() => {
+    loadEarnings()
+  }, [address])
+
+  const loadEarnings = async () => {
+    setIsLoading(true)
+    try {
+      billingManager.clearCache()
+      const [contributorTiers, onChainPending] = await Promise.all([loadContributorTiers(), loadClaimable()])
+      const contributorEarnings = await billingManager.getContributorEarnings(address, contributorTiers)
+      setEarnings(contributorEarnings)
+      setClaimable(onChainPending)
+    } catch (error) {
+      console.error("Error loading contributor earnings:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Tiers come from the contract so ones without paid mints are listed too
+   */
+  const loadContributorTiers = async (): Promise<ContributorTier[]> => {
+    const provider = walletManager.getProvider()
+    if (!provider || !DAT_CONTRACT_ADDRESS) return []
+
+    try {
+      return await fetchContributorTiers(provider, address)
+    } catch (error) {
+      console.error("Error reading contributor tiers:", error)
+      return []
+    }
+  }
+
+  /**
+   * The contract balance is authoritative; the index may lag behind a fresh claim
+   */
+  const loadClaimable = async (): Promise<number | null> => {
+    const provider = walletManager.getProvider()
+    if (!provider || !DAT_CONTRACT_ADDRESS) return null
+
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, provider)
+      const pending = await contract.pendingRevenue(address)
+      return Number.parseFloat(ethers.formatEther(pending))
+    } catch (error) {
+      console.error("Error reading pending revenue:", error)
+      return null
+    }
+  }
+
+  const claimRevenue = async () => {
+    const signer = walletManager.getSigner()
+    if (!signer) {
+      setClaimStatus({ success: false, message: "Connect your wallet to claim revenue." })
+      return
+    }
+
+    setIsClaiming(true)
+    setClaimStatus(null)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await contract.claimRevenue()
+      const receipt = await tx.wait()
+
+      setClaimStatus({ success: true, message: `Revenue claimed. Transaction: ${receipt.hash}` })
+      await loadEarnings()
+    } catch (error: any) {
+      console.error("Error claiming revenue:", error)
+      setClaimStatus({ success: false, message: error?.reason || error?.message || "Claim failed" })
+    } finally {
+      setIsClaiming(false)
+    }
+  }
+
+  if (isLoading && !earnings) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Loading contributor earnings...
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!earnings || earnings.tiers.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Coins className="h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No Contributor Earnings</h3>
+          <p className="text-gray-600 text-center">
+            This address is not a contributor on any subscription tier.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const pending = claimable ?? earnings.pending
+  const history = earnings.monthlyHistory
+  const lastMonth = history[history.length - 1]?.accrued ?? 0
+  const previousMonth = history[history.length - 2]?.accrued ?? 0
+  const monthlyGrowth = previousMonth > 0 ? Math.round(((lastMonth - previousMonth) / previousMonth) * 100) : 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Contributor Earnings</h2>
+          <p className="text-muted-foreground">Revenue accrued from the subscription tiers you contribute to</p>
+        </div>
+        <Button variant="outline" onClick={loadEarnings} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Claimable Revenue
+          </CardTitle>
+          <CardDescription>
+            {earnings.totalAccrued.toFixed(4)} TON accrued, {earnings.totalClaimed.toFixed(4)} TON claimed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="text-3xl font-bold">{pending.toFixed(4)} TON</div>
+            <Button onClick={claimRevenue} disabled={isClaiming || pending <= 0}>
+              {isClaiming ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Claiming...
+                </>
+              ) : (
+                "Claim Revenue"
+              )}
+            </Button>
+          </div>
+
+          {claimStatus && (
+            <Alert variant={claimStatus.success ? "default" : "destructive"}>
+              <AlertDescription className="break-all">{claimStatus.message}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <RevenueAnalytics
+        data={{
+          totalRevenue: earnings.totalAccrued,
+          monthlyGrowth,
+          contributorShares: earnings.tiers.map((tier) => ({
+            name: tier.tierName,
+            share: tier.share,
+            earnings: tier.earnings,
+          })),
+          revenueHistory: history.map((entry) => ({
+            month: entry.month,
+            revenue: entry.accrued,
+            users: entry.subscriptions,
+            claimed: entry.claimed,
+          })),
+        }}
+        labels={{
+          shares: "Tiers",
+          sharesDescription: "Tiers you earn from",
+          distribution: "Earnings by Tier",
+          distributionDescription: "Your share and accrued revenue per subscription tier",
+        }}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tier Usage</CardTitle>
+          <CardDescription>Subscriptions and AI agent usage driving your revenue</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {earnings.tiers.map((tier) => (
+              <div key={tier.tierId} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{tier.tierName}</span>
+                  <Badge variant="outline">{tier.share}% share</Badge>
+                </div>
+                <div className="text-right text-sm">
+                  <div>{tier.subscriptions} subscriptions</div>
+                  <div className="text-muted-foreground">{tier.usage} queries</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Users, RefreshCw } from "lucide-react"
+import {
+  DAT_CONTRACT_ADDRESS,
+  DAT_ABI,
+  decodeSubscriptionTokens,
+  fetchTokenDelegates,
+  type SubscriptionToken,
+  type TokenDelegate,
+} from "@/lib/contracts"
+import { walletManager } from "@/lib/wallet"
+
+const SECONDS_PER_DAY = 86400
+
+interface DelegateForm {
+  delegate: string
+  quotaCap: string
+  days: string
+}
+
+const EMPTY_FORM: DelegateForm = { delegate: "", quotaCap: "", days: "30" }
+
+interface DelegateManagerProps {
+  address: string
+}
+
+/**
+ * Lets a holder share their tokens' quota with other addresses and shows what each delegate has consumed
+ */
+export function DelegateManager({ address }: DelegateManagerProps) {
+  const [tokens, setTokens] = useState<SubscriptionToken[]>([])
+  const [delegates, setDelegates] = useState<Record<string, TokenDelegate[]>>({})
+  const [forms, setForms] = useState<Record<string, DelegateForm>>({})
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null)
+
+  useEffect(() => {
+    loadDelegates()
+  }, [address])
+
+  const loadDelegates = async () => {
+    const provider = walletManager.getProvider()
+    if (!provider || !DAT_CONTRACT_ADDRESS) return
+
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, provider)
+      const held = decodeSubscriptionTokens(await contract.getUserSubscriptions(address))
+      const lists = await Promise.all(held.map((token) => fetchTokenDelegates(provider, token.tokenId, address)))
+      setTokens(held)
+      setDelegates(Object.fromEntries(held.map((token, index) => [token.tokenId, lists[index]])))
+    } catch (error) {
+      console.error("Failed to load delegates:", error)
+    }
+  }
+
+  const runTransaction = async (action: string, send: (contract: ethers.Contract) => Promise<any>) => {
+    const signer = walletManager.getSigner()
+    if (!signer) {
+      setStatus({ success: false, message: "Connect your wallet first." })
+      return
+    }
+
+    setPendingAction(action)
+    setStatus(null)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await send(contract)
+      const receipt = await tx.wait()
+      setStatus({ success: true, message: `${action} confirmed. Transaction: ${receipt.hash}` })
+      await loadDelegates()
+    } catch (error: any) {
+      console.error(`${action} failed:`, error)
+      setStatus({ success: false, message: error?.reason || error?.message || `${action} failed` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const grantDelegate = (token: SubscriptionToken) => {
+    const form = forms[token.tokenId] ?? EMPTY_FORM
+    if (!ethers.isAddress(form.delegate) || !(Number(form.quotaCap) > 0) || !(Number(form.days) > 0)) {
+      setStatus({ success: false, message: "Enter a delegate address, a quota cap and a duration." })
+      return
+    }
+
+    const expiry = Math.floor(Date.now() / 1000) + Math.round(Number(form.days) * SECONDS_PER_DAY)
+    runTransaction(`Delegate token ${token.tokenId}`, async (contract) => {
+      const tx = await contract.setDelegate(token.tokenId, ethers.getAddress(form.delegate), Number(form.quotaCap), expiry)
+      setForms((prev) => ({ ...prev, [token.tokenId]: EMPTY_FORM }))
+      return tx
+    })
+  }
+
+  const revokeDelegate = (token: SubscriptionToken, delegate: TokenDelegate) => {
+    runTransaction(`Revoke ${delegate.delegate.slice(0, 8)}...`, (contract) =>
+      contract.setDelegate(token.tokenId, delegate.delegate, 0, 0),
+    )
+  }
+
+  const setFormField = (tokenId: string, field: keyof DelegateForm, value: string) => {
+    setForms((prev) => ({ ...prev, [tokenId]: { ...(prev[tokenId] ?? EMPTY_FORM), [field]: value } }))
+  }
+
+  const validTokens = tokens.filter((token) => token.isValid)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Delegates
+            </CardTitle>
+            <CardDescription>
+              Let other addresses query the agent on your tokens, up to a quota cap. Their usage is charged to the
+              token.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadDelegates}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && (
+          <Alert variant={status.success ? "default" : "destructive"}>
+            <AlertDescription className="break-all">{status.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {validTokens.length === 0 && (
+          <p className="text-sm text-muted-foreground">You hold no valid tokens to delegate.</p>
+        )}
+
+        {validTokens.map((token) => {
+          const form = forms[token.tokenId] ?? EMPTY_FORM
+          const tokenDelegates = delegates[token.tokenId] ?? []
+
+          return (
+            <div key={token.tokenId} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">
+                  #{token.tokenId} {token.tierName}
+                </span>
+                <span className="text-sm text-muted-foreground">{token.remainingUsage} queries left</span>
+              </div>
+
+              {tokenDelegates.length === 0 && <p className="text-sm text-muted-foreground">No delegates yet.</p>}
+              {tokenDelegates.map((delegate) => (
+                <div key={delegate.delegate} className="space-y-1 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">
+                        {delegate.delegate.slice(0, 6)}...{delegate.delegate.slice(-4)}
+                      </span>
+                      <Badge variant={delegate.active ? "default" : "secondary"}>
+                        {delegate.active ? "Active" : "Inactive"}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">
+                        {delegate.used} / {delegate.quotaCap} used
+                        {delegate.active && `, until ${new Date(delegate.expiry * 1000).toLocaleDateString()}`}
+                      </span>
+                      {delegate.active && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeDelegate(token, delegate)}
+                          disabled={pendingAction !== null}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {delegate.quotaCap > 0 && <Progress value={(delegate.used / delegate.quotaCap) * 100} />}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end pt-2 border-t">
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor={`delegate-${token.tokenId}`}>Delegate address</Label>
+                  <Input
+                    id={`delegate-${token.tokenId}`}
+                    value={form.delegate}
+                    onChange={(e) => setFormField(token.tokenId, "delegate", e.target.value)}
+                    placeholder="0x..."
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`delegate-cap-${token.tokenId}`}>Quota cap</Label>
+                  <Input
+                    id={`delegate-cap-${token.tokenId}`}
+                    type="number"
+                    min="1"
+                    value={form.quotaCap}
+                    onChange={(e) => setFormField(token.tokenId, "quotaCap", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`delegate-days-${token.tokenId}`}>Days</Label>
+                  <Input
+                    id={`delegate-days-${token.tokenId}`}
+                    type="number"
+                    min="1"
+                    value={form.days}
+                    onChange={(e) => setFormField(token.tokenId, "days", e.target.value)}
+                  />
+                </div>
+              </div>
+              <Button size="sm" onClick={() => grantDelegate(token)} disabled={pendingAction !== null}>
+                {pendingAction === `Delegate token ${token.tokenId}` ? "Delegating..." : "Add Delegate"}
+              </Button>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
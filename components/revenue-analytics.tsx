@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts"
-import { TrendingUp, Users, DollarSign, Activity } from "lucide-react"
+import { TrendingUp, Users, Coins, Activity } from "lucide-react"
 
 interface RevenueAnalyticsProps {
   data: {
@@ -12,7 +12,7 @@ interface RevenueAnalyticsProps {
     monthlyGrowth: number
     contributorShares: Array<{
       name: string
-      type: "dataset" | "model" | "infrastructure"
+      type?: "dataset" | "model" | "infrastructure"
       share: number
       earnings: number
     }>
@@ -20,11 +20,28 @@ interface RevenueAnalyticsProps {
       month: string
       revenue: number
       users: number
+      claimed?: number
     }>
   }
+  labels?: {
+    shares: string
+    sharesDescription: string
+    distribution: string
+    distributionDescription: string
+  }
+}
+
+const DEFAULT_LABELS: NonNullable<RevenueAnalyticsProps["labels"]> = {
+  shares: "Contributors",
+  sharesDescription: "Active contributors",
+  distribution: "Revenue Distribution",
+  distributionDescription: "How revenue is shared among different contributor types",
 }
 
-export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
+export function RevenueAnalytics({ data, labels = DEFAULT_LABELS }: RevenueAnalyticsProps) {
+  const hasTypes = data.contributorShares.some((contributor) => contributor.type)
+  const hasClaims = data.revenueHistory.some((point) => point.claimed !== undefined)
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case "dataset":
@@ -47,7 +64,7 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
       case "infrastructure":
         return <Users className="h-4 w-4" />
       default:
-        return <DollarSign className="h-4 w-4" />
+        return <Coins className="h-4 w-4" />
     }
   }
 
@@ -58,10 +75,10 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
+            <Coins className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${data.totalRevenue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{data.totalRevenue.toFixed(4)} TON</div>
             <p className="text-xs text-muted-foreground">
               <span className="text-green-600">+{data.monthlyGrowth}%</span> from last month
             </p>
@@ -70,12 +87,12 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Contributors</CardTitle>
+            <CardTitle className="text-sm font-medium">{labels.shares}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{data.contributorShares.length}</div>
-            <p className="text-xs text-muted-foreground">Active contributors</p>
+            <p className="text-xs text-muted-foreground">{labels.sharesDescription}</p>
           </CardContent>
         </Card>
 
@@ -86,7 +103,9 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {(data.contributorShares.reduce((sum, c) => sum + c.share, 0) / data.contributorShares.length).toFixed(1)}
+              {(
+                data.contributorShares.reduce((sum, c) => sum + c.share, 0) / Math.max(data.contributorShares.length, 1)
+              ).toFixed(1)}
               %
             </div>
             <p className="text-xs text-muted-foreground">Per contributor</p>
@@ -113,8 +132,18 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
                 stroke="#8884d8"
                 fill="#8884d8"
                 fillOpacity={0.3}
-                name="Revenue ($)"
+                name="Revenue (TON)"
               />
+              {hasClaims && (
+                <Area
+                  type="monotone"
+                  dataKey="claimed"
+                  stroke="#82ca9d"
+                  fill="#82ca9d"
+                  fillOpacity={0.3}
+                  name="Claimed (TON)"
+                />
+              )}
             </AreaChart>
           </ResponsiveContainer>
         </CardContent>
@@ -123,8 +152,8 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
       {/* Contributor Breakdown */}
       <Card>
         <CardHeader>
-          <CardTitle>Revenue Distribution</CardTitle>
-          <CardDescription>How revenue is shared among different contributor types</CardDescription>
+          <CardTitle>{labels.distribution}</CardTitle>
+          <CardDescription>{labels.distributionDescription}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -132,14 +161,16 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
               <div key={index} className="space-y-2">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                    {getTypeIcon(contributor.type)}
+                    {getTypeIcon(contributor.type ?? "")}
                     <span className="font-medium">{contributor.name}</span>
-                    <Badge variant="outline" className="capitalize">
-                      {contributor.type}
-                    </Badge>
+                    {contributor.type && (
+                      <Badge variant="outline" className="capitalize">
+                        {contributor.type}
+                      </Badge>
+                    )}
                   </div>
                   <div className="text-right">
-                    <div className="font-medium">${contributor.earnings.toFixed(2)}</div>
+                    <div className="font-medium">{contributor.earnings.toFixed(4)} TON</div>
                     <div className="text-sm text-muted-foreground">{contributor.share}%</div>
                   </div>
                 </div>
@@ -151,40 +182,42 @@ export function RevenueAnalytics({ data }: RevenueAnalyticsProps) {
       </Card>
 
       {/* Distribution Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {["dataset", "model", "infrastructure"].map((type) => {
-          const typeContributors = data.contributorShares.filter((c) => c.type === type)
-          const totalShare = typeContributors.reduce((sum, c) => sum + c.share, 0)
-          const totalEarnings = typeContributors.reduce((sum, c) => sum + c.earnings, 0)
+      {hasTypes && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {["dataset", "model", "infrastructure"].map((type) => {
+            const typeContributors = data.contributorShares.filter((c) => c.type === type)
+            const totalShare = typeContributors.reduce((sum, c) => sum + c.share, 0)
+            const totalEarnings = typeContributors.reduce((sum, c) => sum + c.earnings, 0)
 
-          return (
-            <Card key={type}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 capitalize">
-                  {getTypeIcon(type)}
-                  {type} Providers
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Total Share:</span>
-                    <span className="font-medium">{totalShare.toFixed(1)}%</span>
+            return (
+              <Card key={type}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 capitalize">
+                    {getTypeIcon(type)}
+                    {type} Providers
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Total Share:</span>
+                      <span className="font-medium">{totalShare.toFixed(1)}%</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Total Earnings:</span>
+                      <span className="font-medium">{totalEarnings.toFixed(4)} TON</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Contributors:</span>
+                      <span className="font-medium">{typeContributors.length}</span>
+                    </div>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Total Earnings:</span>
-                    <span className="font-medium">${totalEarnings.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Contributors:</span>
-                    <span className="font-medium">{typeContributors.length}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )
-        })}
-      </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
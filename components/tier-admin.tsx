@@ -0,0 +1,445 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Plus, RefreshCw, Save } from "lucide-react"
+import {
+  DAT_CONTRACT_ADDRESS,
+  DAT_ABI,
+  ACCESS_LEVELS,
+  encodeTierCapabilities,
+  fetchSubscriptionTiers,
+  type SubscriptionTierInfo,
+  type TierCapabilities,
+} from "@/lib/contracts"
+import type { AccessLevel } from "@/lib/model-backends"
+import { walletManager } from "@/lib/wallet"
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+interface TierForm {
+  name: string
+  durationDays: string
+  price: string
+  quota: string
+  unitPrice: string
+  soulbound: boolean
+  contributors: string
+  accessLevel: AccessLevel
+  maxQueryLength: string
+  dailyCap: string
+  streamingAllowed: boolean
+  // comma-separated model ids, empty for any
+  allowedModels: string
+}
+
+const EMPTY_FORM: TierForm = {
+  name: "",
+  durationDays: "30",
+  price: "0.1",
+  quota: "1000",
+  unitPrice: "0",
+  soulbound: false,
+  contributors: "",
+  accessLevel: "basic",
+  maxQueryLength: "200",
+  dailyCap: "0",
+  streamingAllowed: true,
+  allowedModels: "",
+}
+
+function capabilitiesFromForm(form: TierForm): TierCapabilities {
+  return {
+    accessLevel: form.accessLevel,
+    maxQueryLength: Number(form.maxQueryLength),
+    dailyCap: Number(form.dailyCap),
+    streamingAllowed: form.streamingAllowed,
+    allowedModels: form.allowedModels
+      .split(",")
+      .map((model) => model.trim())
+      .filter(Boolean),
+  }
+}
+
+/**
+ * Access level and limits the AI agent enforces for a tier
+ */
+function CapabilityFields({
+  idPrefix,
+  form,
+  onChange,
+}: {
+  idPrefix: string
+  form: TierForm
+  onChange: <K extends keyof TierForm>(field: K, value: TierForm[K]) => void
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-access-level`}>Access level</Label>
+        <Select value={form.accessLevel} onValueChange={(value) => onChange("accessLevel", value as AccessLevel)}>
+          <SelectTrigger id={`${idPrefix}-access-level`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACCESS_LEVELS.map((level) => (
+              <SelectItem key={level} value={level}>
+                {level}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-max-query`}>Max query length</Label>
+        <Input
+          id={`${idPrefix}-max-query`}
+          value={form.maxQueryLength}
+          onChange={(e) => onChange("maxQueryLength", e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-daily-cap`}>Daily cap (0 = none)</Label>
+        <Input id={`${idPrefix}-daily-cap`} value={form.dailyCap} onChange={(e) => onChange("dailyCap", e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-streaming`}>Streaming</Label>
+        <div className="flex h-9 items-center">
+          <Switch
+            id={`${idPrefix}-streaming`}
+            checked={form.streamingAllowed}
+            onCheckedChange={(checked) => onChange("streamingAllowed", checked)}
+          />
+        </div>
+      </div>
+      <div className="space-y-1 md:col-span-4">
+        <Label htmlFor={`${idPrefix}-models`}>Allowed models (comma-separated, empty for any)</Label>
+        <Input
+          id={`${idPrefix}-models`}
+          value={form.allowedModels}
+          onChange={(e) => onChange("allowedModels", e.target.value)}
+          placeholder="openai:gpt-4o-mini, local:llama3"
+        />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Parse "address, share" lines into createSubscriptionTier arguments
+ */
+function parseContributors(input: string): { contributors: string[]; shares: number[] } {
+  const contributors: string[] = []
+  const shares: number[] = []
+
+  for (const line of input.split("\n").filter((line) => line.trim())) {
+    const [address, share] = line.split(",").map((part) => part.trim())
+    if (!ethers.isAddress(address) || !Number.isInteger(Number(share))) {
+      throw new Error(`Invalid contributor line: ${line}`)
+    }
+    contributors.push(ethers.getAddress(address))
+    shares.push(Number(share))
+  }
+
+  if (shares.reduce((sum, share) => sum + share, 0) !== 100) {
+    throw new Error("Contributor shares must sum to 100")
+  }
+  return { contributors, shares }
+}
+
+/**
+ * Owner console for creating, editing and retiring subscription tiers
+ */
+export function TierAdmin() {
+  const [tiers, setTiers] = useState<SubscriptionTierInfo[]>([])
+  const [edits, setEdits] = useState<Record<number, TierForm>>({})
+  const [form, setForm] = useState<TierForm>(EMPTY_FORM)
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null)
+
+  useEffect(() => {
+    loadTiers()
+  }, [])
+
+  const loadTiers = async () => {
+    const provider = walletManager.getProvider()
+    if (!provider) return
+
+    try {
+      const loaded = await fetchSubscriptionTiers(provider)
+      setTiers(loaded)
+      setEdits(
+        Object.fromEntries(
+          loaded.map((tier) => [
+            tier.id,
+            {
+              name: tier.name,
+              durationDays: String(tier.duration / SECONDS_PER_DAY),
+              price: tier.price,
+              quota: String(tier.quota),
+              unitPrice: tier.unitPrice,
+              soulbound: tier.soulbound,
+              contributors: "",
+              accessLevel: tier.capabilities.accessLevel,
+              maxQueryLength: String(tier.capabilities.maxQueryLength),
+              dailyCap: String(tier.capabilities.dailyCap),
+              streamingAllowed: tier.capabilities.streamingAllowed,
+              allowedModels: tier.capabilities.allowedModels.join(", "),
+            },
+          ]),
+        ),
+      )
+    } catch (error) {
+      console.error("Failed to load subscription tiers:", error)
+    }
+  }
+
+  const runTransaction = async (action: string, send: (contract: ethers.Contract) => Promise<any>) => {
+    const signer = walletManager.getSigner()
+    if (!signer) {
+      setStatus({ success: false, message: "Connect the owner wallet first." })
+      return
+    }
+
+    setPendingAction(action)
+    setStatus(null)
+    try {
+      const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer)
+      const tx = await send(contract)
+      const receipt = await tx.wait()
+      setStatus({ success: true, message: `${action} confirmed. Transaction: ${receipt.hash}` })
+      await loadTiers()
+    } catch (error: any) {
+      console.error(`${action} failed:`, error)
+      setStatus({ success: false, message: error?.reason || error?.message || `${action} failed` })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const createTier = () => {
+    let split: { contributors: string[]; shares: number[] }
+    try {
+      split = parseContributors(form.contributors)
+    } catch (error: any) {
+      setStatus({ success: false, message: error.message })
+      return
+    }
+
+    runTransaction("Create tier", async (contract) => {
+      const tx = await contract.createSubscriptionTier(
+        form.name,
+        Math.round(Number(form.durationDays) * SECONDS_PER_DAY),
+        ethers.parseEther(form.price),
+        Number(form.quota),
+        split.contributors,
+        split.shares,
+        encodeTierCapabilities(capabilitiesFromForm(form)),
+      )
+      setForm(EMPTY_FORM)
+      return tx
+    })
+  }
+
+  const updateTier = (tier: SubscriptionTierInfo) => {
+    const edit = edits[tier.id]
+    const capabilities = encodeTierCapabilities(capabilitiesFromForm(edit))
+
+    runTransaction(`Update tier ${tier.id}`, async (contract) => {
+      // The top-up price, transferability and capabilities have their own setters; only send them when they changed
+      if (Number(edit.unitPrice) !== Number(tier.unitPrice)) {
+        const priceTx = await contract.setTierUnitPrice(tier.id, ethers.parseEther(edit.unitPrice))
+        await priceTx.wait()
+      }
+      if (edit.soulbound !== tier.soulbound) {
+        const soulboundTx = await contract.setTierSoulbound(tier.id, edit.soulbound)
+        await soulboundTx.wait()
+      }
+      if (JSON.stringify(capabilities) !== JSON.stringify(encodeTierCapabilities(tier.capabilities))) {
+        const capabilitiesTx = await contract.setTierCapabilities(tier.id, capabilities)
+        await capabilitiesTx.wait()
+      }
+      return contract.updateSubscriptionTier(
+        tier.id,
+        Math.round(Number(edit.durationDays) * SECONDS_PER_DAY),
+        ethers.parseEther(edit.price),
+        Number(edit.quota),
+      )
+    })
+  }
+
+  const toggleTier = (tier: SubscriptionTierInfo) => {
+    runTransaction(`${tier.active ? "Retire" : "Reactivate"} tier ${tier.id}`, (contract) =>
+      contract.setTierActive(tier.id, !tier.active),
+    )
+  }
+
+  const setEdit = <K extends keyof TierForm>(tierId: number, field: K, value: TierForm[K]) => {
+    setEdits((prev) => ({ ...prev, [tierId]: { ...prev[tierId], [field]: value } }))
+  }
+
+  return (
+    <div className="space-y-6">
+      {status && (
+        <Alert variant={status.success ? "default" : "destructive"}>
+          <AlertDescription className="break-all">{status.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Subscription Tiers</CardTitle>
+              <CardDescription>
+                Price, quota and duration apply to new mints; capabilities and transferability apply to every token
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadTiers}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tiers.length === 0 && <p className="text-sm text-muted-foreground">No tiers have been created yet.</p>}
+          {tiers.map((tier) => (
+            <div key={tier.id} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">
+                    #{tier.id} {tier.name}
+                  </span>
+                  <Badge variant={tier.active ? "default" : "secondary"}>{tier.active ? "Active" : "Retired"}</Badge>
+                  <div className="flex items-center gap-2 ml-2">
+                    <Switch
+                      id={`soulbound-${tier.id}`}
+                      checked={edits[tier.id]?.soulbound ?? false}
+                      onCheckedChange={(checked) => setEdit(tier.id, "soulbound", checked)}
+                    />
+                    <Label htmlFor={`soulbound-${tier.id}`}>Non-transferable</Label>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => updateTier(tier)} disabled={pendingAction !== null}>
+                    <Save className="h-4 w-4 mr-1" />
+                    Save
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={tier.active ? "destructive" : "outline"}
+                    onClick={() => toggleTier(tier)}
+                    disabled={pendingAction !== null}
+                  >
+                    {tier.active ? "Retire" : "Reactivate"}
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`price-${tier.id}`}>Price (TON)</Label>
+                  <Input
+                    id={`price-${tier.id}`}
+                    value={edits[tier.id]?.price ?? ""}
+                    onChange={(e) => setEdit(tier.id, "price", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`quota-${tier.id}`}>Usage quota</Label>
+                  <Input
+                    id={`quota-${tier.id}`}
+                    value={edits[tier.id]?.quota ?? ""}
+                    onChange={(e) => setEdit(tier.id, "quota", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`duration-${tier.id}`}>Duration (days)</Label>
+                  <Input
+                    id={`duration-${tier.id}`}
+                    value={edits[tier.id]?.durationDays ?? ""}
+                    onChange={(e) => setEdit(tier.id, "durationDays", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`unit-price-${tier.id}`}>Top-up price per query (TON)</Label>
+                  <Input
+                    id={`unit-price-${tier.id}`}
+                    value={edits[tier.id]?.unitPrice ?? ""}
+                    onChange={(e) => setEdit(tier.id, "unitPrice", e.target.value)}
+                  />
+                </div>
+              </div>
+              {edits[tier.id] && (
+                <CapabilityFields
+                  idPrefix={`tier-${tier.id}`}
+                  form={edits[tier.id]}
+                  onChange={(field, value) => setEdit(tier.id, field, value)}
+                />
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Create Tier
+          </CardTitle>
+          <CardDescription>Contributors receive their share of every mint of this tier</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="tier-name">Name</Label>
+              <Input id="tier-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tier-price">Price (TON)</Label>
+              <Input id="tier-price" value={form.price} onChange={(e) => setForm({ ...form, price: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tier-quota">Usage quota</Label>
+              <Input id="tier-quota" value={form.quota} onChange={(e) => setForm({ ...form, quota: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tier-duration">Duration (days)</Label>
+              <Input
+                id="tier-duration"
+                value={form.durationDays}
+                onChange={(e) => setForm({ ...form, durationDays: e.target.value })}
+              />
+            </div>
+          </div>
+          <CapabilityFields
+            idPrefix="new-tier"
+            form={form}
+            onChange={(field, value) => setForm((prev) => ({ ...prev, [field]: value }))}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="tier-contributors">Contributors (one "address, share" per line, shares sum to 100)</Label>
+            <Textarea
+              id="tier-contributors"
+              value={form.contributors}
+              onChange={(e) => setForm({ ...form, contributors: e.target.value })}
+              placeholder={"0x1234..., 70\n0xabcd..., 30"}
+            />
+          </div>
+          <Button onClick={createTier} disabled={pendingAction !== null || !form.name.trim()}>
+            {pendingAction === "Create tier" ? "Creating..." : "Create Tier"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -15,12 +15,30 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
     
     Counters.Counter private _tokenIds;
     
+    // Access levels understood by the AI agent
+    uint8 public constant ACCESS_BASIC = 0;
+    uint8 public constant ACCESS_PREMIUM = 1;
+    uint8 public constant ACCESS_ENTERPRISE = 2;
+    
+    struct TierCapabilities {
+        uint8 accessLevel;
+        uint256 maxQueryLength; // characters per query
+        uint256 dailyCap; // queries per day, 0 for no cap
+        bool streamingAllowed;
+        string[] allowedModels; // model ids the agent may serve, empty for any
+    }
+    
     struct SubscriptionTier {
         string name;
         uint256 duration; // in seconds
         uint256 price;
         uint256 usageQuota; // number of AI agent calls allowed
         bool active;
+        uint8 accessLevel;
+        uint256 maxQueryLength;
+        uint256 dailyCap;
+        bool streamingAllowed;
+        string[] allowedModels;
     }
     
     struct TokenMetadata {
@@ -31,16 +49,103 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
         uint256[] revenueShares; // percentage shares (sum = 100)
     }
     
+    struct SubscriptionInfo {
+        uint256 tokenId;
+        uint256 tierId;
+        bool isValid; // unexpired with usage left
+        uint256 expiryTime;
+        uint256 remainingUsage;
+        string tierName;
+        TierCapabilities capabilities;
+    }
+    
+    struct Delegation {
+        address grantor; // holder that granted it; lapses once the token changes hands
+        uint256 quotaCap; // total usage the delegate may draw
+        uint256 used;
+        uint256 expiry;
+    }
+    
+    struct DelegatedAccess {
+        uint256 tokenId;
+        address owner;
+        uint256 remainingUsage; // what the delegate can still draw, within cap and token quota
+        uint256 quotaCap;
+        uint256 used;
+        uint256 expiry; // earlier of delegation and token expiry
+        string tierName;
+        TierCapabilities capabilities;
+    }
+    
     mapping(uint256 => SubscriptionTier) public subscriptionTiers;
     mapping(uint256 => TokenMetadata) public tokenMetadata;
+    // Tokens currently held by each address, kept in sync by the transfer hook
     mapping(address => uint256[]) public userTokens;
+    // Position of a token in its holder's userTokens, plus one; 0 when not indexed
+    mapping(uint256 => uint256) private userTokenPosition;
+    
+    // Delegations per token and delegate, with reverse indexes for lookups
+    mapping(uint256 => mapping(address => Delegation)) public delegations;
+    mapping(uint256 => address[]) private tokenDelegates;
+    mapping(address => uint256[]) private delegatedTokens;
+    
+    // Tiers whose tokens cannot be transferred after mint
+    mapping(uint256 => bool) public tierSoulbound;
+    
+    // Price per extra usage unit bought with topUp; 0 disables top-ups for the tier
+    mapping(uint256 => uint256) public tierUnitPrice;
+    
+    // Revenue split per tier, copied into each token's metadata on mint
+    mapping(uint256 => address[]) private tierContributors;
+    mapping(uint256 => uint256[]) private tierRevenueShares;
+    
+    // Pull-payment balances accrued to contributors
+    mapping(address => uint256) public pendingRevenue;
+    mapping(address => uint256) public claimedRevenue;
+    uint256 public totalPendingRevenue;
+    
+    struct AnchoredBatch {
+        uint256 batchId;
+        uint256 count; // number of query/response commitments in the batch
+        uint256 timestamp;
+    }
+    
+    mapping(bytes32 => AnchoredBatch) public anchoredBatches;
     
     uint256 public tierCount;
+    uint256 public batchCount;
     
     event SubscriptionTierCreated(uint256 indexed tierId, string name, uint256 price, uint256 duration);
+    event SubscriptionTierUpdated(uint256 indexed tierId, uint256 price, uint256 usageQuota, uint256 duration);
+    event SubscriptionTierActiveChanged(uint256 indexed tierId, bool active);
+    event TierCapabilitiesUpdated(uint256 indexed tierId, uint8 accessLevel);
+    event TierUnitPriceUpdated(uint256 indexed tierId, uint256 unitPrice);
+    event TierSoulboundChanged(uint256 indexed tierId, bool soulbound);
+    event SubscriptionRenewed(address indexed user, uint256 indexed tokenId, uint256 expiryTime, uint256 amount);
+    event UsageToppedUp(address indexed user, uint256 indexed tokenId, uint256 units, uint256 amount);
+    event SubscriptionUpgraded(
+        address indexed user,
+        uint256 indexed tokenId,
+        uint256 fromTierId,
+        uint256 toTierId,
+        uint256 credit,
+        uint256 amount
+    );
+    event DelegateSet(
+        uint256 indexed tokenId,
+        address indexed owner,
+        address indexed delegate,
+        uint256 quotaCap,
+        uint256 expiry
+    );
+    event DelegatedUsageConsumed(uint256 indexed tokenId, address indexed delegate, uint256 amount);
     event DATMinted(address indexed user, uint256 indexed tokenId, uint256 tierId);
     event UsageConsumed(address indexed user, uint256 indexed tokenId, uint256 amount);
     event RevenueDistributed(uint256 indexed tokenId, uint256 amount);
+    event RevenueAccrued(address indexed contributor, uint256 indexed tokenId, uint256 share, uint256 amount);
+    event RevenueClaimed(address indexed contributor, uint256 amount);
+    event BatchAnchored(uint256 indexed batchId, bytes32 indexed root, uint256 count);
+    event UsageBatchSettled(uint256 count);
     
     constructor() ERC1155("https://api.lazai.network/metadata/{id}.json") {}
     
@@ -53,7 +158,8 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
         uint256 price,
         uint256 usageQuota,
         address[] memory contributors,
-        uint256[] memory revenueShares
+        uint256[] memory revenueShares,
+        TierCapabilities calldata capabilities
     ) external onlyOwner {
         require(contributors.length == revenueShares.length, "Contributors and shares length mismatch");
         
@@ -64,15 +170,106 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
         require(totalShares == 100, "Revenue shares must sum to 100");
         
         tierCount++;
-        subscriptionTiers[tierCount] = SubscriptionTier({
-            name: name,
-            duration: duration,
-            price: price,
-            usageQuota: usageQuota,
-            active: true
-        });
+        SubscriptionTier storage tier = subscriptionTiers[tierCount];
+        tier.name = name;
+        tier.duration = duration;
+        tier.price = price;
+        tier.usageQuota = usageQuota;
+        tier.active = true;
+        tierContributors[tierCount] = contributors;
+        tierRevenueShares[tierCount] = revenueShares;
         
         emit SubscriptionTierCreated(tierCount, name, price, duration);
+        _setTierCapabilities(tierCount, capabilities);
+    }
+    
+    /**
+     * @dev Replace the capabilities the AI agent enforces for a tier
+     */
+    function setTierCapabilities(uint256 tierId, TierCapabilities calldata capabilities) external onlyOwner {
+        require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
+        _setTierCapabilities(tierId, capabilities);
+    }
+    
+    function _setTierCapabilities(uint256 tierId, TierCapabilities calldata capabilities) internal {
+        require(capabilities.accessLevel <= ACCESS_ENTERPRISE, "Invalid access level");
+        require(capabilities.maxQueryLength > 0, "Max query length must be positive");
+        
+        SubscriptionTier storage tier = subscriptionTiers[tierId];
+        tier.accessLevel = capabilities.accessLevel;
+        tier.maxQueryLength = capabilities.maxQueryLength;
+        tier.dailyCap = capabilities.dailyCap;
+        tier.streamingAllowed = capabilities.streamingAllowed;
+        
+        delete tier.allowedModels;
+        for (uint256 i = 0; i < capabilities.allowedModels.length; i++) {
+            tier.allowedModels.push(capabilities.allowedModels[i]);
+        }
+        
+        emit TierCapabilitiesUpdated(tierId, capabilities.accessLevel);
+    }
+    
+    /**
+     * @dev Get the capabilities of a tier, including its allowed models
+     */
+    function getTierCapabilities(uint256 tierId) public view returns (TierCapabilities memory) {
+        SubscriptionTier storage tier = subscriptionTiers[tierId];
+        return TierCapabilities({
+            accessLevel: tier.accessLevel,
+            maxQueryLength: tier.maxQueryLength,
+            dailyCap: tier.dailyCap,
+            streamingAllowed: tier.streamingAllowed,
+            allowedModels: tier.allowedModels
+        });
+    }
+    
+    /**
+     * @dev Update a tier's terms; tokens already minted keep the terms they were bought with
+     */
+    function updateSubscriptionTier(
+        uint256 tierId,
+        uint256 duration,
+        uint256 price,
+        uint256 usageQuota
+    ) external onlyOwner {
+        require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
+        
+        SubscriptionTier storage tier = subscriptionTiers[tierId];
+        tier.duration = duration;
+        tier.price = price;
+        tier.usageQuota = usageQuota;
+        
+        emit SubscriptionTierUpdated(tierId, price, usageQuota, duration);
+    }
+    
+    /**
+     * @dev Retire or reactivate a tier for new mints
+     */
+    function setTierActive(uint256 tierId, bool active) external onlyOwner {
+        require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
+        
+        subscriptionTiers[tierId].active = active;
+        emit SubscriptionTierActiveChanged(tierId, active);
+    }
+    
+    /**
+     * @dev Set the per-unit price for usage top-ups on a tier
+     */
+    function setTierUnitPrice(uint256 tierId, uint256 unitPrice) external onlyOwner {
+        require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
+        
+        tierUnitPrice[tierId] = unitPrice;
+        emit TierUnitPriceUpdated(tierId, unitPrice);
+    }
+    
+    /**
+     * @dev Flag a tier's tokens as non-transferable; applies to tokens already minted too
+     */
+    function setTierSoulbound(uint256 tierId, bool soulbound) external onlyOwner {
+        require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
+        
+        tierSoulbound[tierId] = soulbound;
+        emit TierSoulboundChanged(tierId, soulbound);
     }
     
     /**
@@ -80,7 +277,7 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
      */
     function mintDAT(uint256 tierId) external payable nonReentrant {
         require(tierId > 0 && tierId <= tierCount, "Invalid tier ID");
-        SubscriptionTier memory tier = subscriptionTiers[tierId];
+        SubscriptionTier storage tier = subscriptionTiers[tierId];
         require(tier.active, "Subscription tier not active");
         require(msg.value >= tier.price, "Insufficient payment");
         
@@ -92,17 +289,15 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
             tierId: tierId,
             expiryTime: block.timestamp + tier.duration,
             remainingUsage: tier.usageQuota,
-            contributors: new address[](0),
-            revenueShares: new uint256[](0)
+            contributors: tierContributors[tierId],
+            revenueShares: tierRevenueShares[tierId]
         });
         
-        // Mint the token
+        // Mint the token; the transfer hook adds it to userTokens
         _mint(msg.sender, newTokenId, 1, "");
-        userTokens[msg.sender].push(newTokenId);
         
-        // Distribute revenue (simplified - in production, use more sophisticated distribution)
         if (msg.value > 0) {
-            // For now, keep revenue in contract - implement distribution logic
+            _accrueRevenue(newTokenId, tierId, msg.value);
             emit RevenueDistributed(newTokenId, msg.value);
         }
         
@@ -110,71 +305,520 @@ contract DataAnchoringToken is ERC1155, Ownable, ReentrancyGuard {
     }
     
     /**
-     * @dev Check if user has valid subscription
+     * @dev Extend an owned token by one tier period and add the tier's usage quota.
+     * Expired tokens are renewed from now, active ones from their current expiry.
+     */
+    function renew(uint256 tokenId) external payable nonReentrant {
+        require(balanceOf(msg.sender, tokenId) > 0, "Not token owner");
+        
+        TokenMetadata storage metadata = tokenMetadata[tokenId];
+        SubscriptionTier storage tier = subscriptionTiers[metadata.tierId];
+        require(tier.active, "Subscription tier not active");
+        require(msg.value >= tier.price, "Insufficient payment");
+        
+        uint256 start = metadata.expiryTime > block.timestamp ? metadata.expiryTime : block.timestamp;
+        metadata.expiryTime = start + tier.duration;
+        metadata.remainingUsage += tier.usageQuota;
+        
+        if (msg.value > 0) {
+            _accrueRevenue(tokenId, metadata.tierId, msg.value);
+            emit RevenueDistributed(tokenId, msg.value);
+        }
+        
+        emit SubscriptionRenewed(msg.sender, tokenId, metadata.expiryTime, msg.value);
+    }
+    
+    /**
+     * @dev Buy extra usage units for an owned, unexpired token at the tier's unit price
+     */
+    function topUp(uint256 tokenId, uint256 units) external payable nonReentrant {
+        require(balanceOf(msg.sender, tokenId) > 0, "Not token owner");
+        require(units > 0, "No units requested");
+        
+        TokenMetadata storage metadata = tokenMetadata[tokenId];
+        require(block.timestamp < metadata.expiryTime, "Subscription expired");
+        
+        uint256 unitPrice = tierUnitPrice[metadata.tierId];
+        require(unitPrice > 0, "Top-ups not available for tier");
+        require(msg.value >= unitPrice * units, "Insufficient payment");
+        
+        metadata.remainingUsage += units;
+        
+        _accrueRevenue(tokenId, metadata.tierId, msg.value);
+        emit RevenueDistributed(tokenId, msg.value);
+        emit UsageToppedUp(msg.sender, tokenId, units, msg.value);
+    }
+    
+    /**
+     * @dev Quote moving a token to another tier. The credit is the current tier price
+     * scaled by whichever of unused time or unused quota is smaller, capped at the new price.
+     * Remaining usage the credit does not pay for, such as top-ups, is carried over.
+     */
+    function quoteUpgrade(
+        uint256 tokenId,
+        uint256 newTierId
+    ) public view returns (uint256 credit, uint256 cost, uint256 carriedUsage) {
+        require(newTierId > 0 && newTierId <= tierCount, "Invalid tier ID");
+        
+        TokenMetadata memory metadata = tokenMetadata[tokenId];
+        require(metadata.tierId != newTierId, "Already on tier");
+        
+        SubscriptionTier storage currentTier = subscriptionTiers[metadata.tierId];
+        SubscriptionTier storage newTier = subscriptionTiers[newTierId];
+        
+        if (block.timestamp < metadata.expiryTime && currentTier.duration > 0 && currentTier.usageQuota > 0) {
+            uint256 timeCredit = (currentTier.price * (metadata.expiryTime - block.timestamp)) / currentTier.duration;
+            uint256 usageCredit = (currentTier.price * metadata.remainingUsage) / currentTier.usageQuota;
+            credit = timeCredit < usageCredit ? timeCredit : usageCredit;
+        }
+        
+        if (credit > newTier.price) {
+            credit = newTier.price;
+        }
+        cost = newTier.price - credit;
+        
+        // Usage the credit converts into money, at the current tier's quota price
+        uint256 creditedUsage = currentTier.price > 0 ? (credit * currentTier.usageQuota) / currentTier.price : 0;
+        carriedUsage = metadata.remainingUsage > creditedUsage ? metadata.remainingUsage - creditedUsage : 0;
+    }
+    
+    /**
+     * @dev Move an owned token to a pricier tier, paying the new price less the unused value
+     * of the current one. The token restarts with the new tier's full duration and quota, plus
+     * the carried-over usage. The credit shrinks as time passes, so callers may send more than
+     * the quote; anything above the cost is refunded.
+     */
+    function upgradeTier(uint256 tokenId, uint256 newTierId) external payable nonReentrant {
+        require(balanceOf(msg.sender, tokenId) > 0, "Not token owner");
+        
+        SubscriptionTier storage newTier = subscriptionTiers[newTierId];
+        require(newTier.active, "Subscription tier not active");
+        
+        TokenMetadata storage metadata = tokenMetadata[tokenId];
+        uint256 fromTierId = metadata.tierId;
+        require(newTier.price > subscriptionTiers[fromTierId].price, "Not an upgrade");
+        
+        (uint256 credit, uint256 cost, uint256 carriedUsage) = quoteUpgrade(tokenId, newTierId);
+        require(msg.value >= cost, "Insufficient payment");
+        
+        metadata.tierId = newTierId;
+        metadata.expiryTime = block.timestamp + newTier.duration;
+        metadata.remainingUsage = newTier.usageQuota + carriedUsage;
+        metadata.contributors = tierContributors[newTierId];
+        metadata.revenueShares = tierRevenueShares[newTierId];
+        
+        if (cost > 0) {
+            _accrueRevenue(tokenId, newTierId, cost);
+            emit RevenueDistributed(tokenId, cost);
+        }
+        
+        emit SubscriptionUpgraded(msg.sender, tokenId, fromTierId, newTierId, credit, cost);
+        
+        if (msg.value > cost) {
+            (bool success, ) = payable(msg.sender).call{value: msg.value - cost}("");
+            require(success, "Refund failed");
+        }
+    }
+    
+    /**
+     * @dev Reject transfers of soulbound tokens between holders; mints are always allowed
+     */
+    function _beforeTokenTransfer(
+        address operator,
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory amounts,
+        bytes memory data
+    ) internal override {
+        super._beforeTokenTransfer(operator, from, to, ids, amounts, data);
+        
+        if (from == address(0) || to == address(0)) return;
+        for (uint256 i = 0; i < ids.length; i++) {
+            require(!tierSoulbound[tokenMetadata[ids[i]].tierId], "Token is non-transferable");
+        }
+    }
+    
+    /**
+     * @dev Keep userTokens in sync with balances after mints and transfers
+     */
+    function _afterTokenTransfer(
+        address operator,
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory amounts,
+        bytes memory data
+    ) internal override {
+        super._afterTokenTransfer(operator, from, to, ids, amounts, data);
+        
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (from != address(0) && from != to && balanceOf(from, ids[i]) == 0) {
+                _removeUserToken(from, ids[i]);
+            }
+            if (to != address(0) && userTokenPosition[ids[i]] == 0) {
+                userTokens[to].push(ids[i]);
+                userTokenPosition[ids[i]] = userTokens[to].length;
+            }
+        }
+    }
+    
+    /**
+     * @dev Swap-and-pop a token out of its former holder's userTokens
+     */
+    function _removeUserToken(address holder, uint256 tokenId) private {
+        uint256[] storage tokens = userTokens[holder];
+        uint256 index = userTokenPosition[tokenId] - 1;
+        uint256 lastTokenId = tokens[tokens.length - 1];
+        
+        tokens[index] = lastTokenId;
+        userTokenPosition[lastTokenId] = index + 1;
+        tokens.pop();
+        delete userTokenPosition[tokenId];
+    }
+    
+    /**
+     * @dev Credit each tier contributor's share of a payment; rounding dust stays with the owner
+     */
+    function _accrueRevenue(uint256 tokenId, uint256 tierId, uint256 amount) internal {
+        address[] memory contributors = tierContributors[tierId];
+        uint256[] memory shares = tierRevenueShares[tierId];
+        
+        for (uint256 i = 0; i < contributors.length; i++) {
+            uint256 contributorAmount = (amount * shares[i]) / 100;
+            if (contributorAmount == 0) continue;
+            
+            pendingRevenue[contributors[i]] += contributorAmount;
+            totalPendingRevenue += contributorAmount;
+            emit RevenueAccrued(contributors[i], tokenId, shares[i], contributorAmount);
+        }
+    }
+    
+    /**
+     * @dev Withdraw the caller's accrued contributor revenue
+     */
+    function claimRevenue() external nonReentrant {
+        uint256 amount = pendingRevenue[msg.sender];
+        require(amount > 0, "No revenue to claim");
+        
+        pendingRevenue[msg.sender] = 0;
+        totalPendingRevenue -= amount;
+        claimedRevenue[msg.sender] += amount;
+        
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Claim failed");
+        
+        emit RevenueClaimed(msg.sender, amount);
+    }
+    
+    /**
+     * @dev Get a tier's contributors and their percentage shares
+     */
+    function getTierContributors(uint256 tierId) external view returns (address[] memory, uint256[] memory) {
+        return (tierContributors[tierId], tierRevenueShares[tierId]);
+    }
+    
+    /**
+     * @dev Check if user has valid subscription; returns the token usage is drawn from next
      */
     function hasValidSubscription(address user) external view returns (bool, uint256) {
-        uint256[] memory tokens = userTokens[user];
+        return _nextValidToken(user);
+    }
+    
+    /**
+     * @dev The user's valid token expiring soonest, which usage drains first
+     */
+    function _nextValidToken(address user) internal view returns (bool found, uint256 tokenId) {
+        uint256[] storage tokens = userTokens[user];
+        uint256 soonestExpiry = type(uint256).max;
         
         for (uint256 i = 0; i < tokens.length; i++) {
-            uint256 tokenId = tokens[i];
-            if (balanceOf(user, tokenId) > 0) {
-                TokenMetadata memory metadata = tokenMetadata[tokenId];
-                if (block.timestamp < metadata.expiryTime && metadata.remainingUsage > 0) {
-                    return (true, tokenId);
-                }
+            if (balanceOf(user, tokens[i]) == 0) continue;
+            
+            TokenMetadata storage metadata = tokenMetadata[tokens[i]];
+            if (block.timestamp < metadata.expiryTime && metadata.remainingUsage > 0 && metadata.expiryTime < soonestExpiry) {
+                found = true;
+                tokenId = tokens[i];
+                soonestExpiry = metadata.expiryTime;
             }
         }
+    }
+    
+    /**
+     * @dev Draw usage from the user's valid tokens, soonest-expiring first. Returns the amount drawn,
+     * which is less than requested only when every valid token has been exhausted.
+     */
+    function _drainUsage(address user, uint256 amount) internal returns (uint256) {
+        uint256 outstanding = amount;
         
-        return (false, 0);
+        while (outstanding > 0) {
+            (bool hasValid, uint256 tokenId) = _nextValidToken(user);
+            if (!hasValid) break;
+            
+            TokenMetadata storage metadata = tokenMetadata[tokenId];
+            uint256 drawn = outstanding < metadata.remainingUsage ? outstanding : metadata.remainingUsage;
+            
+            metadata.remainingUsage -= drawn;
+            outstanding -= drawn;
+            emit UsageConsumed(user, tokenId, drawn);
+        }
+        
+        return amount - outstanding;
     }
     
     /**
-     * @dev Consume usage quota (called by AI agent)
+     * @dev Consume usage quota (called by AI agent), spanning tokens when one runs out
      */
     function consumeUsage(address user, uint256 amount) external onlyOwner {
-        (bool hasValid, uint256 tokenId) = this.hasValidSubscription(user);
+        (bool hasValid, ) = _nextValidToken(user);
         require(hasValid, "No valid subscription");
+        require(_drainUsage(user, amount) == amount, "Insufficient usage quota");
+    }
+    
+    /**
+     * @dev Settle aggregated off-chain usage for many users in one transaction.
+     * Users without a valid subscription are skipped and amounts are capped at the
+     * combined remaining quota, so one stale entry cannot revert the whole batch.
+     */
+    function consumeUsageBatch(address[] calldata users, uint256[] calldata amounts) external onlyOwner {
+        require(users.length == amounts.length, "Users and amounts length mismatch");
+        
+        uint256 settled = 0;
+        for (uint256 i = 0; i < users.length; i++) {
+            (bool hasValid, ) = _nextValidToken(users[i]);
+            if (!hasValid) continue;
+            
+            _drainUsage(users[i], amounts[i]);
+            settled++;
+        }
+        
+        emit UsageBatchSettled(settled);
+    }
+    
+    /**
+     * @dev Settle aggregated usage charged to specific tokens, e.g. through API keys bound to one.
+     * Entries whose user no longer holds an unexpired token are skipped and amounts are capped
+     * at the token's remaining usage, as in consumeUsageBatch.
+     */
+    function consumeTokenUsageBatch(
+        address[] calldata users,
+        uint256[] calldata tokenIds,
+        uint256[] calldata amounts
+    ) external onlyOwner {
+        require(users.length == tokenIds.length && users.length == amounts.length, "Length mismatch");
+        
+        uint256 settled = 0;
+        for (uint256 i = 0; i < users.length; i++) {
+            if (balanceOf(users[i], tokenIds[i]) == 0) continue;
+            
+            TokenMetadata storage metadata = tokenMetadata[tokenIds[i]];
+            if (block.timestamp >= metadata.expiryTime || metadata.remainingUsage == 0) continue;
+            
+            uint256 amount = amounts[i] < metadata.remainingUsage ? amounts[i] : metadata.remainingUsage;
+            metadata.remainingUsage -= amount;
+            
+            emit UsageConsumed(users[i], tokenIds[i], amount);
+            settled++;
+        }
+        
+        emit UsageBatchSettled(settled);
+    }
+    
+    /**
+     * @dev Let another address draw up to quotaCap usage from a held token until expiry.
+     * Calling again updates the grant; a zero cap or past expiry revokes it.
+     */
+    function setDelegate(uint256 tokenId, address delegate, uint256 quotaCap, uint256 expiry) external {
+        require(balanceOf(msg.sender, tokenId) > 0, "Not token owner");
+        require(delegate != address(0) && delegate != msg.sender, "Invalid delegate");
+        
+        Delegation storage delegation = delegations[tokenId][delegate];
+        if (delegation.grantor == address(0)) {
+            tokenDelegates[tokenId].push(delegate);
+            delegatedTokens[delegate].push(tokenId);
+        }
+        if (delegation.grantor != msg.sender) {
+            // A new holder's grant starts from zero consumption
+            delegation.grantor = msg.sender;
+            delegation.used = 0;
+        }
+        delegation.quotaCap = quotaCap;
+        delegation.expiry = expiry;
+        
+        emit DelegateSet(tokenId, msg.sender, delegate, quotaCap, expiry);
+    }
+    
+    /**
+     * @dev Usage a delegate can still draw from a token; 0 once revoked, expired, exhausted or transferred
+     */
+    function _delegatedRemaining(uint256 tokenId, address delegate) internal view returns (uint256) {
+        Delegation storage delegation = delegations[tokenId][delegate];
+        if (delegation.grantor == address(0) || balanceOf(delegation.grantor, tokenId) == 0) return 0;
+        if (block.timestamp >= delegation.expiry || delegation.used >= delegation.quotaCap) return 0;
         
         TokenMetadata storage metadata = tokenMetadata[tokenId];
-        require(metadata.remainingUsage >= amount, "Insufficient usage quota");
+        if (block.timestamp >= metadata.expiryTime) return 0;
+        
+        uint256 allowance = delegation.quotaCap - delegation.used;
+        return allowance < metadata.remainingUsage ? allowance : metadata.remainingUsage;
+    }
+    
+    /**
+     * @dev Every delegate ever granted on a token, with the current grant terms
+     */
+    function getDelegates(uint256 tokenId) external view returns (address[] memory delegates, Delegation[] memory grants) {
+        delegates = tokenDelegates[tokenId];
+        grants = new Delegation[](delegates.length);
+        for (uint256 i = 0; i < delegates.length; i++) {
+            grants[i] = delegations[tokenId][delegates[i]];
+        }
+    }
+    
+    /**
+     * @dev Tokens a delegate can currently draw usage from
+     */
+    function getDelegatedAccess(address delegate) external view returns (DelegatedAccess[] memory access) {
+        uint256[] storage tokens = delegatedTokens[delegate];
+        
+        uint256 active = 0;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (_delegatedRemaining(tokens[i], delegate) > 0) active++;
+        }
+        
+        access = new DelegatedAccess[](active);
+        uint256 index = 0;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 remaining = _delegatedRemaining(tokens[i], delegate);
+            if (remaining == 0) continue;
+            
+            Delegation storage delegation = delegations[tokens[i]][delegate];
+            TokenMetadata storage metadata = tokenMetadata[tokens[i]];
+            access[index] = DelegatedAccess({
+                tokenId: tokens[i],
+                owner: delegation.grantor,
+                remainingUsage: remaining,
+                quotaCap: delegation.quotaCap,
+                used: delegation.used,
+                expiry: delegation.expiry < metadata.expiryTime ? delegation.expiry : metadata.expiryTime,
+                tierName: subscriptionTiers[metadata.tierId].name,
+                capabilities: getTierCapabilities(metadata.tierId)
+            });
+            index++;
+        }
+    }
+    
+    /**
+     * @dev Settle delegates' off-chain usage against the delegating owners' tokens. Like
+     * consumeUsageBatch, lapsed grants are skipped and amounts capped at what remains.
+     */
+    function consumeDelegatedUsageBatch(
+        address[] calldata delegates,
+        uint256[] calldata tokenIds,
+        uint256[] calldata amounts
+    ) external onlyOwner {
+        require(delegates.length == tokenIds.length && delegates.length == amounts.length, "Length mismatch");
+        
+        uint256 settled = 0;
+        for (uint256 i = 0; i < delegates.length; i++) {
+            uint256 available = _delegatedRemaining(tokenIds[i], delegates[i]);
+            if (available == 0) continue;
+            
+            uint256 amount = amounts[i] < available ? amounts[i] : available;
+            Delegation storage delegation = delegations[tokenIds[i]][delegates[i]];
+            delegation.used += amount;
+            tokenMetadata[tokenIds[i]].remainingUsage -= amount;
+            
+            emit UsageConsumed(delegation.grantor, tokenIds[i], amount);
+            emit DelegatedUsageConsumed(tokenIds[i], delegates[i], amount);
+            settled++;
+        }
+        
+        emit UsageBatchSettled(settled);
+    }
+    
+    /**
+     * @dev Every token the user holds, with its tier and validity. Order is unspecified: transfers swap-and-pop userTokens
+     */
+    function getUserSubscriptions(address user) external view returns (SubscriptionInfo[] memory subscriptions) {
+        uint256[] storage tokens = userTokens[user];
+        
+        uint256 held = 0;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (balanceOf(user, tokens[i]) > 0) held++;
+        }
         
-        metadata.remainingUsage -= amount;
-        emit UsageConsumed(user, tokenId, amount);
+        subscriptions = new SubscriptionInfo[](held);
+        uint256 index = 0;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 tokenId = tokens[i];
+            if (balanceOf(user, tokenId) == 0) continue;
+            
+            TokenMetadata storage metadata = tokenMetadata[tokenId];
+            subscriptions[index] = SubscriptionInfo({
+                tokenId: tokenId,
+                tierId: metadata.tierId,
+                isValid: block.timestamp < metadata.expiryTime && metadata.remainingUsage > 0,
+                expiryTime: metadata.expiryTime,
+                remainingUsage: metadata.remainingUsage,
+                tierName: subscriptionTiers[metadata.tierId].name,
+                capabilities: getTierCapabilities(metadata.tierId)
+            });
+            index++;
+        }
     }
     
     /**
-     * @dev Get user's subscription details
+     * @dev Get details of the subscription usage is drawn from next
      */
     function getUserSubscription(address user) external view returns (
         bool isValid,
         uint256 tokenId,
         uint256 expiryTime,
         uint256 remainingUsage,
-        string memory tierName
+        string memory tierName,
+        TierCapabilities memory capabilities
     ) {
-        (bool hasValid, uint256 validTokenId) = this.hasValidSubscription(user);
+        (bool hasValid, uint256 validTokenId) = _nextValidToken(user);
         
         if (hasValid) {
             TokenMetadata memory metadata = tokenMetadata[validTokenId];
-            SubscriptionTier memory tier = subscriptionTiers[metadata.tierId];
             
             return (
                 true,
                 validTokenId,
                 metadata.expiryTime,
                 metadata.remainingUsage,
-                tier.name
+                subscriptionTiers[metadata.tierId].name,
+                getTierCapabilities(metadata.tierId)
             );
         }
         
-        return (false, 0, 0, 0, "");
+        return (false, 0, 0, 0, "", capabilities);
+    }
+    
+    /**
+     * @dev Anchor the Merkle root of a batch of query/response commitments (called by AI agent)
+     */
+    function anchorBatch(bytes32 root, uint256 count) external onlyOwner {
+        require(root != bytes32(0), "Invalid root");
+        require(count > 0, "Empty batch");
+        require(anchoredBatches[root].timestamp == 0, "Root already anchored");
+        
+        batchCount++;
+        anchoredBatches[root] = AnchoredBatch({
+            batchId: batchCount,
+            count: count,
+            timestamp: block.timestamp
+        });
+        
+        emit BatchAnchored(batchCount, root, count);
     }
     
     /**
-     * @dev Withdraw contract balance (owner only)
+     * @dev Withdraw the contract balance not owed to contributors (owner only)
      */
     function withdraw() external onlyOwner {
-        uint256 balance = address(this).balance;
+        uint256 balance = address(this).balance - totalPendingRevenue;
         require(balance > 0, "No funds to withdraw");
         
         (bool success, ) = payable(owner()).call{value: balance}("");
@@ -38,6 +38,14 @@ export function useWallet() {
     await walletManager.disconnect()
   }, [])
 
+  const signIn = useCallback(async () => {
+    return await walletManager.signIn()
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await walletManager.signOut()
+  }, [])
+
   const switchNetwork = useCallback(async (networkKey: string) => {
     return await walletManager.switchToNetwork(networkKey)
   }, [])
@@ -69,11 +77,14 @@ export function useWallet() {
     // Actions
     connect,
     disconnect,
+    signIn,
+    signOut,
     switchNetwork,
     sendTransaction,
     refreshBalance,
 
     // Utilities
+    isSignedIn: Boolean(state.sessionToken && state.sessionExpiresAt && state.sessionExpiresAt > Date.now()),
     isValidNetwork: walletManager.isValidNetwork(state.chainId || 0),
     currentNetwork: walletManager.getCurrentNetwork(),
     walletInfo: state.provider ? WalletManager.getWalletInfo(state.provider) : null,
@@ -0,0 +1,9 @@
+/**
+ * Start tailing DAT events when the Node.js server boots rather than on the first billing request
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getServerIndexer } = await import("./lib/indexer-server")
+    getServerIndexer()
+  }
+}
@@ -0,0 +1,247 @@
+import type { AccessControlResult, AgentMode, AIResponse, QueryStreamEvent, VerificationProof } from "./ai-agent"
+import type { AnchorProof } from "./anchoring"
+import type { ApiKeyRecord } from "./api-keys"
+import type { UsageQuote } from "./pricing"
+import type { QueryUsageRecord } from "./usage-records"
+import { verifyMerkleProof } from "./anchoring"
+import { verifyAttestation } from "./attestation"
+import type { ConversationMessage, ConversationSummary } from "./conversations"
+
+export interface AgentStatus {
+  isOnline: boolean
+  mode: AgentMode
+  agentAddress: string
+  version: string
+  supportedFeatures: string[]
+  lastUpdate: number
+}
+
+export interface QuoteResult {
+  success: boolean
+  quote?: UsageQuote
+  remainingUsage?: number
+  error?: string
+  denialReason?: AccessControlResult["denialReason"]
+}
+
+export interface QueryResult {
+  success: boolean
+  response?: AIResponse
+  error?: string
+  denialReason?: AccessControlResult["denialReason"]
+  // Seconds until a rate-limited caller may query again
+  retryAfter?: number
+  usageConsumed?: number
+}
+
+/**
+ * Typed browser client for the /api/agent routes
+ */
+export class AgentClient {
+  private status: AgentStatus | null = null
+
+  constructor(private readonly baseUrl = "/api/agent") {}
+
+  async getStatus(): Promise<AgentStatus> {
+    const res = await fetch(`${this.baseUrl}/status`)
+    this.status = await this.parse<AgentStatus>(res)
+    return this.status
+  }
+
+  /**
+   * Agent signer address from the last status fetch
+   */
+  getAgentAddress(): string | null {
+    return this.status?.agentAddress ?? null
+  }
+
+  /**
+   * Access for an address. Bypassing the server's access cache needs that address's session;
+   * without one a refresh falls back to the cached result.
+   */
+  async getAccess(address: string, forceRefresh = false, authToken?: string | null): Promise<AccessControlResult> {
+    const refresh = forceRefresh && !!authToken
+    const params = new URLSearchParams({ address, ...(refresh ? { refresh: "1" } : {}) })
+    const res = await fetch(`${this.baseUrl}/access?${params}`, refresh ? { headers: this.headers(authToken) } : {})
+    return this.parse<AccessControlResult>(res)
+  }
+
+  async query(authToken: string, query: string, sessionId?: string): Promise<QueryResult> {
+    const res = await fetch(`${this.baseUrl}/query`, {
+      method: "POST",
+      headers: this.headers(authToken),
+      body: JSON.stringify({ query, sessionId }),
+    })
+    return (await res.json()) as QueryResult
+  }
+
+  /**
+   * Dry-run price of a query in usage units, before sending it
+   */
+  async quoteQuery(authToken: string, query: string, sessionId?: string): Promise<QuoteResult> {
+    const res = await fetch(`${this.baseUrl}/quote`, {
+      method: "POST",
+      headers: this.headers(authToken),
+      body: JSON.stringify({ query, sessionId }),
+    })
+    return (await res.json()) as QuoteResult
+  }
+
+  /**
+   * Stream query events; aborting `signal` disconnects and the server stops generating
+   */
+  async *queryStream(
+    authToken: string,
+    query: string,
+    sessionId?: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<QueryStreamEvent> {
+    let res: Response
+    try {
+      res = await fetch(`${this.baseUrl}/query`, {
+        method: "POST",
+        headers: this.headers(authToken),
+        body: JSON.stringify({ query, sessionId, stream: true }),
+        signal,
+      })
+    } catch (error) {
+      if (signal?.aborted) return
+      throw error
+    }
+
+    if (!res.ok || !res.body) {
+      const data = await res.json().catch(() => ({}))
+      yield {
+        type: "error",
+        error: data.error || `Agent request failed (${res.status})`,
+        denialReason: data.denialReason,
+        retryAfter: data.retryAfter,
+      }
+      return
+    }
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split("\n")
+        buffer = lines.pop() ?? ""
+
+        for (const line of lines) {
+          if (line.trim()) yield JSON.parse(line) as QueryStreamEvent
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error
+    } finally {
+      reader.releaseLock()
+    }
+  }
+
+  async listSessions(authToken: string): Promise<ConversationSummary[]> {
+    const res = await fetch(`${this.baseUrl}/sessions`, { headers: this.headers(authToken) })
+    const data = await this.parse<{ sessions: ConversationSummary[] }>(res)
+    return data.sessions
+  }
+
+  async getSessionHistory(authToken: string, sessionId: string): Promise<ConversationMessage[] | null> {
+    const res = await fetch(`${this.baseUrl}/sessions/${encodeURIComponent(sessionId)}`, {
+      headers: this.headers(authToken),
+    })
+    if (res.status === 404) return null
+
+    const data = await this.parse<{ messages: ConversationMessage[] }>(res)
+    return data.messages
+  }
+
+  async deleteSession(authToken: string, sessionId: string): Promise<boolean> {
+    const res = await fetch(`${this.baseUrl}/sessions/${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+      headers: this.headers(authToken),
+    })
+    return res.ok
+  }
+
+  async getUsageRecords(authToken: string): Promise<QueryUsageRecord[]> {
+    const res = await fetch(`${this.baseUrl}/usage`, { headers: this.headers(authToken) })
+    const data = await this.parse<{ records: QueryUsageRecord[] }>(res)
+    return data.records
+  }
+
+  async listApiKeys(authToken: string): Promise<ApiKeyRecord[]> {
+    const res = await fetch(`${this.baseUrl}/keys`, { headers: this.headers(authToken) })
+    const data = await this.parse<{ keys: ApiKeyRecord[] }>(res)
+    return data.keys
+  }
+
+  /**
+   * Mint an API key from a wallet-signed request; the returned key is only ever shown once
+   */
+  async createApiKey(message: string, signature: string): Promise<{ key: string; record: ApiKeyRecord }> {
+    const res = await fetch(`${this.baseUrl}/keys`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ message, signature }),
+    })
+    return this.parse<{ key: string; record: ApiKeyRecord }>(res)
+  }
+
+  async revokeApiKey(authToken: string, keyId: string): Promise<boolean> {
+    const res = await fetch(`${this.baseUrl}/keys/${encodeURIComponent(keyId)}`, {
+      method: "DELETE",
+      headers: this.headers(authToken),
+    })
+    return res.ok
+  }
+
+  /**
+   * Verify a response attestation locally against the agent address reported by the status route
+   */
+  async verifyResponse(proof: VerificationProof, response: string, query?: string): Promise<boolean> {
+    const status = this.status ?? (await this.getStatus())
+    return verifyAttestation(proof, status.agentAddress, response, query)
+  }
+
+  /**
+   * Fetch the Merkle proof for a response and check inclusion locally
+   */
+  async verifyAnchorInclusion(leaf: string): Promise<{
+    status: "pending" | "anchored" | "unknown"
+    verified: boolean
+    proof?: AnchorProof
+  }> {
+    const res = await fetch(`${this.baseUrl}/anchor?leaf=${leaf}`)
+    const data = await this.parse<{
+      status: "pending" | "anchored" | "unknown"
+      rootAnchored: boolean
+      proof: AnchorProof | null
+    }>(res)
+
+    if (!data.proof) {
+      return { status: data.status, verified: false }
+    }
+
+    const included = data.proof.leaf === leaf && verifyMerkleProof(leaf, data.proof.proof, data.proof.root)
+    return { status: data.status, verified: included && data.rootAnchored, proof: data.proof }
+  }
+
+  private headers(authToken: string): HeadersInit {
+    return { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` }
+  }
+
+  private async parse<T>(res: Response): Promise<T> {
+    const data = await res.json()
+    if (!res.ok) {
+      throw new Error(data.error || `Agent request failed (${res.status})`)
+    }
+    return data as T
+  }
+}
+
+export const agentClient = new AgentClient()
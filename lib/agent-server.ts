@@ -0,0 +1,72 @@
+import { ethers } from "ethers"
+import fs from "fs"
+import { NextResponse } from "next/server"
+import { AIAgent } from "./ai-agent"
+import { parsePricingPolicy, type PricingPolicy } from "./pricing"
+import { SiweAuthManager, getBearerToken } from "./siwe"
+import { ApiKeyManager, getApiKey } from "./api-keys"
+
+let serverAgent: AIAgent | null = null
+
+/**
+ * Pricing policy from the JSON file at AI_PRICING_CONFIG, or the defaults when unset
+ */
+function loadPricingPolicy(): PricingPolicy | undefined {
+  const configPath = process.env.AI_PRICING_CONFIG
+  if (!configPath) return undefined
+
+  return parsePricingPolicy(fs.readFileSync(configPath, "utf8"))
+}
+
+/**
+ * Process-wide agent used by the API routes. Usage is consumed by the operator
+ * signer (the contract owner), never by the end user's wallet.
+ */
+export function getServerAgent(): AIAgent {
+  if (!serverAgent) {
+    const rpcUrl = process.env.DAT_RPC_URL
+    const operatorKey = process.env.DAT_OPERATOR_PRIVATE_KEY
+    const options = { pricing: loadPricingPolicy() }
+
+    if (rpcUrl) {
+      const provider = new ethers.JsonRpcProvider(rpcUrl)
+      const signer = operatorKey ? new ethers.Wallet(operatorKey, provider) : undefined
+      if (!signer) {
+        console.warn("[AI Agent] DAT_OPERATOR_PRIVATE_KEY not set, usage cannot be consumed on-chain")
+      }
+      serverAgent = new AIAgent(provider, signer, options)
+    } else {
+      serverAgent = new AIAgent(undefined, undefined, options)
+    }
+  }
+
+  return serverAgent
+}
+
+/**
+ * Verified SIWE session from the Authorization header, or a 401 response
+ */
+export function requireSession(request: Request): { token: string; address: string } | NextResponse {
+  const token = getBearerToken(request)
+  const session = token ? SiweAuthManager.getInstance().resolveSession(token) : null
+
+  if (!token || !session) {
+    return NextResponse.json({ error: "Sign in with Ethereum required" }, { status: 401 })
+  }
+  return { token, address: session.address }
+}
+
+/**
+ * Caller of the query route: an API key from the X-API-Key header (or an API key bearer),
+ * otherwise a verified SIWE session. Responds 401 when neither is valid.
+ */
+export function requireCaller(request: Request): { token: string; address: string } | NextResponse {
+  const apiKey = getApiKey(request)
+  if (!apiKey) return requireSession(request)
+
+  const record = ApiKeyManager.getInstance().resolve(apiKey)
+  if (!record) {
+    return NextResponse.json({ error: "Invalid, expired or revoked API key" }, { status: 401 })
+  }
+  return { token: apiKey, address: record.address }
+}
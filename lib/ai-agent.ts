@@ -1,34 +1,181 @@
 import { ethers } from "ethers"
-import { DAT_CONTRACT_ADDRESS, DAT_ABI } from "./contracts"
+import {
+  DAT_CONTRACT_ADDRESS,
+  DAT_ABI,
+  decodeDelegatedAccess,
+  decodeSubscriptionTokens,
+  type SubscriptionToken,
+  type TierCapabilities,
+} from "./contracts"
+import { AnchorService, verifyMerkleProof, type AnchorProof, type AnchorReceipt } from "./anchoring"
+import { resolveSessionAddress } from "./siwe"
+import { ApiKeyManager, isApiKey } from "./api-keys"
+import { SecurityManager } from "./security"
+import { PricingEngine, type PricingPolicy, type UsageQuote } from "./pricing"
+import { countPromptTokens, defaultTokenizer, type Tokenizer } from "./tokenizer"
+import { usageRecordStore, type QueryUsageRecord, type UsageRecordStore } from "./usage-records"
+import { ResponseAttestor, type ResponseAttestation } from "./attestation"
+import { UsageLedger, type SettlementResult, type UsageDrift } from "./usage-ledger"
+import {
+  createDefaultBackends,
+  DEFAULT_MAX_TOKENS,
+  type AccessLevel,
+  type ModelBackend,
+  type ModelMessage,
+  type TokenUsage,
+} from "./model-backends"
+import {
+  conversationStore,
+  type ConversationMessage,
+  type ConversationStore,
+  type ConversationSummary,
+} from "./conversations"
 
-interface VerificationProof {
-  proof: string
-  publicInputs: string[]
-  timestamp: number
-}
+export type VerificationProof = ResponseAttestation
 
-interface AIResponse {
+export interface AIResponse {
   content: string
   confidence: number
   sources: string[]
+  modelId?: string
+  /** Prompt and completion tokens the response was metered at */
+  tokens?: TokenUsage
   verificationProof?: VerificationProof
+  anchor?: AnchorReceipt
 }
 
-interface AccessControlResult {
+export type AgentMode = "demo" | "strict"
+
+export type AccessDenialReason =
+  | "UNAUTHENTICATED"
+  | "NO_PROVIDER"
+  | "RPC_ERROR"
+  | "DECODE_ERROR"
+  | "NO_SUBSCRIPTION"
+  | "QUOTA_EXCEEDED"
+  | "RATE_LIMITED"
+
+/**
+ * Access across all of a user's tokens. `tokenId`, `expiryTime`, `tierName` and the capabilities
+ * describe the token usage is drawn from next (soonest-expiring); `remainingUsage` is the combined
+ * quota of every valid token. Users without a valid token of their own fall back to a delegation,
+ * in which case the fields describe the delegating owner's token and usage is charged to it.
+ */
+export interface AccessControlResult {
   hasAccess: boolean
   tokenId?: string
   remainingUsage?: number
   expiryTime?: number
   tierName?: string
-  accessLevel?: "basic" | "premium" | "enterprise"
+  accessLevel?: AccessLevel
+  capabilities?: TierCapabilities
+  /** Every token the user holds, in drain order */
+  tokens?: SubscriptionToken[]
+  /** Set when access is drawn from another holder's token */
+  delegation?: {
+    owner: string
+    quotaCap: number
+    used: number
+    expiry: number
+  }
+  denialReason?: AccessDenialReason
+}
+
+const DENIAL_MESSAGES: Record<AccessDenialReason, string> = {
+  UNAUTHENTICATED: "Please sign in with Ethereum to query the AI agent.",
+  NO_PROVIDER: "Access denied. The agent is not connected to the DAT contract.",
+  RPC_ERROR: "Access denied. The subscription could not be verified on-chain, please try again later.",
+  DECODE_ERROR: "Access denied. The subscription data returned by the contract could not be read.",
+  NO_SUBSCRIPTION: "Access denied. Please purchase a valid DAT subscription to access the AI agent.",
+  QUOTA_EXCEEDED: "Usage quota exceeded. Please upgrade your subscription or wait for renewal.",
+  RATE_LIMITED: "Too many requests. Please slow down and try again shortly.",
+}
+
+// Simulated demo and fallback access, matching the limits of the equivalent on-chain tiers
+const SIMULATED_CAPABILITIES: Record<"basic" | "premium", TierCapabilities> = {
+  basic: { accessLevel: "basic", maxQueryLength: 200, dailyCap: 10, streamingAllowed: true, allowedModels: [] },
+  premium: { accessLevel: "premium", maxQueryLength: 1000, dailyCap: 100, streamingAllowed: true, allowedModels: [] },
+}
+
+// Queries per minute per address; daily caps are part of the on-chain tier capabilities
+const DEFAULT_BURST_LIMITS: Record<AccessLevel, number> = { basic: 5, premium: 20, enterprise: 60 }
+
+function retryAfterSeconds(resetTime: number): number {
+  return Math.max(1, Math.ceil((resetTime - Date.now()) / 1000))
+}
+
+/**
+ * Access result for a simulated single-token subscription in demo mode
+ */
+function simulatedAccess(token: Omit<SubscriptionToken, "isValid">): AccessControlResult {
+  return {
+    hasAccess: true,
+    tokenId: token.tokenId,
+    remainingUsage: token.remainingUsage,
+    expiryTime: token.expiryTime,
+    tierName: token.tierName,
+    accessLevel: token.capabilities.accessLevel,
+    capabilities: token.capabilities,
+    tokens: [{ ...token, isValid: true }],
+  }
+}
+
+export interface AIAgentOptions {
+  /** "strict" denies access on any provider, RPC or decode failure; defaults to NEXT_PUBLIC_AGENT_MODE or "demo" */
+  mode?: AgentMode
+  /** Model backend per access level; unset levels use the environment defaults */
+  backends?: Partial<Record<AccessLevel, ModelBackend>>
+  /** Conversation history store; defaults to the shared in-process store */
+  conversationStore?: ConversationStore
+  /** Response signer; defaults to AI_AGENT_PRIVATE_KEY / NEXT_PUBLIC_AI_AGENT_ADDRESS */
+  attestor?: ResponseAttestor
+  /** Maps a SIWE session token to its verified address; defaults to the auth session store */
+  resolveSession?: (token: string) => Promise<string | null>
+  /** API keys accepted in place of a SIWE session; defaults to the shared key store */
+  apiKeys?: ApiKeyManager
+  /** Usage pricing; defaults to DEFAULT_PRICING_POLICY */
+  pricing?: PricingPolicy
+  /** Meters tokens when the model backend does not report its own counts */
+  tokenizer?: Tokenizer
+  /** Per-query metering records; defaults to the shared in-process store */
+  usageRecords?: UsageRecordStore
+  /** Queries per minute per access level; unset levels use DEFAULT_BURST_LIMITS */
+  burstLimits?: Partial<Record<AccessLevel, number>>
+  /** Length of the Merkle anchoring window in ms */
+  anchorWindowMs?: number
+  /** Interval between batched consumeUsageBatch settlements in ms */
+  settlementIntervalMs?: number
 }
 
+export type QueryStreamEvent =
+  | { type: "token"; content: string }
+  | {
+      type: "done"
+      response: AIResponse
+      usageConsumed: number
+      aborted: boolean
+    }
+  | { type: "error"; error: string; denialReason?: AccessDenialReason; retryAfter?: number }
+
 interface QueryContext {
   userAddress: string
   query: string
   timestamp: number
   sessionId: string
   ipHash?: string
+  // Set when the caller authenticated with an API key rather than a wallet session
+  apiKey?: { id: string; tokenId: string }
+}
+
+// Worst-case cost held against the ledger, and the API key's cap, while a query runs
+interface QuotaReservation {
+  id: string
+  userAddress: string
+  amount: number
+  // output limit the held amount pays for
+  maxTokens: number
+  apiKeyId?: string
+  settled: boolean
 }
 
 export class AIAgent {
@@ -36,9 +183,33 @@ export class AIAgent {
   private provider: ethers.Provider | null = null
   private accessCache: Map<string, { result: AccessControlResult; timestamp: number }> = new Map()
   private readonly CACHE_DURATION = 60000 // 1 minute cache
+  private backends: Record<AccessLevel, ModelBackend>
+  private conversations: ConversationStore
+  private attestor: ResponseAttestor
+  private anchorService: AnchorService
+  private usageLedger: UsageLedger
+  private readonly mode: AgentMode
+  private resolveSession: (token: string) => Promise<string | null>
+  private apiKeys: ApiKeyManager
+  private pricing: PricingEngine
+  private tokenizer: Tokenizer
+  private usageRecords: UsageRecordStore
+  private burstLimits: Record<AccessLevel, number>
 
-  constructor(provider?: ethers.Provider, signer?: ethers.Signer) {
+  constructor(provider?: ethers.Provider, signer?: ethers.Signer, options: AIAgentOptions = {}) {
+    this.mode = options.mode ?? (process.env.NEXT_PUBLIC_AGENT_MODE === "strict" ? "strict" : "demo")
+    this.backends = { ...createDefaultBackends(), ...options.backends }
+    this.conversations = options.conversationStore ?? conversationStore
+    this.attestor = options.attestor ?? new ResponseAttestor()
+    this.resolveSession = options.resolveSession ?? resolveSessionAddress
+    this.apiKeys = options.apiKeys ?? ApiKeyManager.getInstance()
+    this.tokenizer = options.tokenizer ?? defaultTokenizer
+    this.pricing = new PricingEngine(options.pricing, this.tokenizer)
+    this.usageRecords = options.usageRecords ?? usageRecordStore
+    this.burstLimits = { ...DEFAULT_BURST_LIMITS, ...options.burstLimits }
     this.initializeProvider(provider, signer)
+    this.anchorService = new AnchorService(this.contract, options.anchorWindowMs)
+    this.usageLedger = new UsageLedger(this.contract, options.settlementIntervalMs)
   }
 
   private async initializeProvider(provider?: ethers.Provider, signer?: ethers.Signer) {
@@ -72,126 +243,235 @@ export class AIAgent {
    * Enhanced access verification with caching and detailed permissions
    */
   async verifyAccess(userAddress: string, forceRefresh = false): Promise<AccessControlResult> {
+    if (forceRefresh) {
+      this.invalidateAccess(userAddress)
+    }
+
     const cacheKey = userAddress.toLowerCase()
     const cached = this.accessCache.get(cacheKey)
 
-    if (!forceRefresh && cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.result
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return this.withLedgerBalance(userAddress, cached.result)
     }
 
     if (!this.contract || !this.provider || !this.isValidProvider(this.provider)) {
+      if (this.mode === "strict") {
+        console.warn("[AI Agent] No valid contract available, denying access in strict mode")
+        return { hasAccess: false, denialReason: "NO_PROVIDER" }
+      }
+
       console.log("[AI Agent] No valid contract available, returning demo access")
-      const mockResult: AccessControlResult = {
-        hasAccess: true,
+      const mockResult = simulatedAccess({
         tokenId: "demo-1",
+        tierId: 0,
         remainingUsage: 10,
         expiryTime: Math.floor(Date.now() / 1000) + 86400 * 30, // 30 days from now
         tierName: "Demo Access",
-        accessLevel: "premium",
-      }
+        capabilities: SIMULATED_CAPABILITIES.premium,
+      })
       this.accessCache.set(cacheKey, { result: mockResult, timestamp: Date.now() })
-      return mockResult
+      return this.withLedgerBalance(userAddress, mockResult)
     }
 
+    let subscriptions: ethers.Result
+    let delegatedAccess: ethers.Result
     try {
-      const [isValid, tokenId, expiryTime, remainingUsage, tierName] =
-        await this.contract.getUserSubscription(userAddress)
-
-      let accessLevel: "basic" | "premium" | "enterprise" = "basic"
-      if (tierName.includes("Lifetime")) {
-        accessLevel = "enterprise"
-      } else if (tierName.includes("Monthly")) {
-        accessLevel = "premium"
-      }
+      ;[subscriptions, delegatedAccess] = await Promise.all([
+        this.contract.getUserSubscriptions(userAddress),
+        this.contract.getDelegatedAccess(userAddress),
+      ])
+    } catch (error) {
+      console.error("Error verifying access:", error)
+      return this.accessFailure(cacheKey, this.isDecodeError(error) ? "DECODE_ERROR" : "RPC_ERROR")
+    }
 
-      const result: AccessControlResult = {
-        hasAccess: isValid,
-        tokenId: tokenId.toString(),
-        remainingUsage: remainingUsage.toNumber(),
-        expiryTime: expiryTime.toNumber(),
-        tierName,
-        accessLevel,
+    try {
+      if (!Array.isArray(subscriptions) || !Array.isArray(delegatedAccess)) {
+        throw new TypeError("Unexpected getUserSubscriptions result shape")
       }
 
+      const tokens = decodeSubscriptionTokens(subscriptions)
+      const validTokens = tokens.filter((token) => token.isValid)
+      // Usage drains the soonest-expiring token first, so its tier governs the next query.
+      // Privileges come from the tier's on-chain capabilities, never from its display name.
+      const current = validTokens[0]
+      // Own tokens take precedence; otherwise draw from the delegation with the most usage left
+      const grant = current ? undefined : decodeDelegatedAccess(delegatedAccess)[0]
+
+      const result: AccessControlResult = current
+        ? {
+            hasAccess: true,
+            tokenId: current.tokenId,
+            remainingUsage: validTokens.reduce((sum, token) => sum + token.remainingUsage, 0),
+            expiryTime: current.expiryTime,
+            tierName: current.tierName,
+            accessLevel: current.capabilities.accessLevel,
+            capabilities: current.capabilities,
+            tokens,
+          }
+        : grant
+          ? {
+              hasAccess: true,
+              tokenId: grant.tokenId,
+              remainingUsage: grant.remainingUsage,
+              expiryTime: grant.expiry,
+              tierName: grant.tierName,
+              accessLevel: grant.capabilities.accessLevel,
+              capabilities: grant.capabilities,
+              tokens,
+              delegation: { owner: grant.owner, quotaCap: grant.quotaCap, used: grant.used, expiry: grant.expiry },
+            }
+          : { hasAccess: false, remainingUsage: 0, tokens, denialReason: "NO_SUBSCRIPTION" }
+
       this.accessCache.set(cacheKey, { result, timestamp: Date.now() })
+      if (result.hasAccess) {
+        this.usageLedger.observe(userAddress, result.tokenId!, result.remainingUsage!, !!result.delegation)
+      }
+      this.observeKeyTokens(userAddress, tokens, true)
 
-      return result
+      return this.withLedgerBalance(userAddress, result)
     } catch (error) {
-      console.error("Error verifying access:", error)
-      const fallbackResult: AccessControlResult = {
-        hasAccess: true,
-        tokenId: "fallback-1",
-        remainingUsage: 5,
-        expiryTime: Math.floor(Date.now() / 1000) + 86400 * 7, // 7 days from now
-        tierName: "Demo Fallback",
-        accessLevel: "basic",
-      }
-      this.accessCache.set(cacheKey, { result: fallbackResult, timestamp: Date.now() })
-      return fallbackResult
+      console.error("Error decoding subscription:", error)
+      return this.accessFailure(cacheKey, "DECODE_ERROR")
+    }
+  }
+
+  /**
+   * Drop a user's cached access so the next check re-reads the subscription. An upgrade
+   * keeps the token id but changes the tier, so a cached accessLevel would otherwise linger.
+   */
+  invalidateAccess(userAddress: string): void {
+    this.accessCache.delete(userAddress.toLowerCase())
+  }
+
+  /**
+   * Strict mode denies with the failure reason; demo mode keeps the fallback tier
+   */
+  private accessFailure(cacheKey: string, reason: "RPC_ERROR" | "DECODE_ERROR"): AccessControlResult {
+    if (this.mode === "strict") {
+      return { hasAccess: false, denialReason: reason }
+    }
+
+    const fallbackResult = simulatedAccess({
+      tokenId: "fallback-1",
+      tierId: 0,
+      remainingUsage: 5,
+      expiryTime: Math.floor(Date.now() / 1000) + 86400 * 7, // 7 days from now
+      tierName: "Demo Fallback",
+      capabilities: SIMULATED_CAPABILITIES.basic,
+    })
+    this.accessCache.set(cacheKey, { result: fallbackResult, timestamp: Date.now() })
+    return this.withLedgerBalance(cacheKey, fallbackResult)
+  }
+
+  /**
+   * Report remaining usage net of debits not yet settled on-chain, drawing them from the
+   * tokens in drain order. Simulated demo balances seed the ledger once instead of being re-observed.
+   */
+  private withLedgerBalance(userAddress: string, result: AccessControlResult): AccessControlResult {
+    if (!result.hasAccess || result.tokenId === undefined || result.remainingUsage === undefined) {
+      return result
+    }
+    this.observeKeyTokens(userAddress, result.tokens ?? [], false)
+
+    if (this.usageLedger.getRemaining(userAddress) === null) {
+      this.usageLedger.observe(userAddress, result.tokenId, result.remainingUsage, !!result.delegation)
     }
+
+    const remainingUsage = this.usageLedger.getRemaining(userAddress) ?? result.remainingUsage
+    let undrawn = Math.max(0, result.remainingUsage - remainingUsage)
+    const tokens = result.tokens?.map((token) => {
+      if (!token.isValid) return token
+      const drawn = Math.min(undrawn, token.remainingUsage)
+      undrawn -= drawn
+      return { ...token, remainingUsage: token.remainingUsage - drawn }
+    })
+
+    return { ...result, remainingUsage, tokens }
+  }
+
+  /**
+   * API keys are charged to their own token, so the ledger tracks each bound token in its own
+   * account. Accounts are seeded once from any read and rebased only on fresh contract reads.
+   */
+  private observeKeyTokens(userAddress: string, tokens: SubscriptionToken[], rebase: boolean): void {
+    const keyTokens = new Set(this.apiKeys.list(userAddress).map((record) => record.tokenId))
+    tokens
+      .filter((token) => keyTokens.has(token.tokenId))
+      .forEach((token) => {
+        if (rebase || this.usageLedger.getRemaining(userAddress, token.tokenId) === null) {
+          this.usageLedger.observeToken(userAddress, token.tokenId, token.isValid ? token.remainingUsage : 0)
+        }
+      })
+  }
+
+  private isDecodeError(error: any): boolean {
+    return error?.code === "BAD_DATA" || error?.code === "INVALID_ARGUMENT" || error instanceof TypeError
   }
 
   /**
-   * Enhanced query processing with ZKP verification and TEE simulation
+   * Enhanced query processing with response attestation and TEE simulation.
+   * The caller is identified by a SIWE session token or an API key, never by a passed-in address.
    */
   async processQuery(
-    userAddress: string,
+    authToken: string,
     query: string,
     sessionId: string = crypto.randomUUID(),
   ): Promise<{
     success: boolean
     response?: AIResponse
     error?: string
+    denialReason?: AccessDenialReason
+    // Seconds until a rate-limited caller may query again
+    retryAfter?: number
     usageConsumed?: number
-    transactionHash?: string
   }> {
+    const caller = await this.resolveCaller(authToken)
+    if (!caller) {
+      return { success: false, error: DENIAL_MESSAGES.UNAUTHENTICATED, denialReason: "UNAUTHENTICATED" }
+    }
+    const { userAddress } = caller
+
     const queryContext: QueryContext = {
-      userAddress,
+      ...caller,
       query,
       timestamp: Date.now(),
       sessionId,
     }
 
-    const accessCheck = await this.verifyAccess(userAddress)
-
-    if (!accessCheck.hasAccess) {
-      await this.logSecurityEvent("ACCESS_DENIED", queryContext)
-      return {
-        success: false,
-        error: "Access denied. Please purchase a valid DAT subscription to access the AI agent.",
-      }
-    }
-
-    if (accessCheck.remainingUsage === 0) {
-      await this.logSecurityEvent("QUOTA_EXCEEDED", queryContext)
-      return {
-        success: false,
-        error: "Usage quota exceeded. Please upgrade your subscription or wait for renewal.",
-      }
+    const authorization = await this.authorizeQuery(queryContext)
+    if (!authorization.allowed) {
+      const { error, denialReason } = authorization
+      return { success: false, error, denialReason }
     }
+    const { capabilities, tokenId } = authorization
+    const accessLevel = capabilities.accessLevel
+    const history = this.conversations.getContextWindow(sessionId, userAddress, accessLevel)
 
-    const validationResult = await this.validateQuery(query, accessCheck.accessLevel!)
-    if (!validationResult.isValid) {
-      return {
-        success: false,
-        error: validationResult.error,
-      }
+    const hold = await this.reserveUsage(queryContext, capabilities, history)
+    if (!hold.success) {
+      const { error, denialReason, retryAfter } = hold
+      return { success: false, error, denialReason, retryAfter }
     }
+    const { reservation } = hold
 
     try {
-      const teeResult = await this.processTEE(queryContext, accessCheck.accessLevel!)
-      const aiResponse = await this.generateEnhancedAIResponse(query, accessCheck.accessLevel!)
+      const teeResult = await this.processTEE(queryContext, accessLevel)
+      const generated = await this.generateEnhancedAIResponse(query, capabilities, history, reservation.maxTokens)
+      const metering = this.meterResponse(query, history, capabilities, generated.content, generated.tokens)
+      const aiResponse: AIResponse = { ...generated, tokens: metering.tokens }
       const verificationProof = await this.generateVerificationProof(queryContext, aiResponse)
 
       const response: AIResponse = {
         ...aiResponse,
         verificationProof,
+        anchor: this.anchorService.enqueue(verificationProof),
       }
 
-      const usageAmount = this.calculateUsageCost(query, accessCheck.accessLevel!)
-      const txHash = await this.consumeUsageWithLogging(userAddress, usageAmount, queryContext)
+      const usageAmount = this.commitUsage(queryContext, reservation, metering.quote.units)
+      this.recordUsage(queryContext, tokenId, metering, usageAmount, false)
 
-      this.accessCache.delete(userAddress.toLowerCase())
+      this.conversations.appendTurn(sessionId, userAddress, query, response.content)
 
       await this.logSuccessfulQuery(queryContext, response, usageAmount)
 
@@ -199,7 +479,6 @@ export class AIAgent {
         success: true,
         response,
         usageConsumed: usageAmount,
-        transactionHash: txHash,
       }
     } catch (error) {
       console.error("Error processing query:", error)
@@ -208,18 +487,265 @@ export class AIAgent {
         success: false,
         error: "Failed to process query. Please try again later.",
       }
+    } finally {
+      // No-op once committed; returns the hold when generation or attestation failed
+      this.releaseUsage(reservation)
+    }
+  }
+
+  /**
+   * Streaming variant of processQuery. Yields tokens as the model produces them and
+   * finishes with a "done" envelope carrying the proof and usage consumed.
+   * Aborting via `signal` stops generation and only bills for output already generated.
+   */
+  async *processQueryStream(
+    authToken: string,
+    query: string,
+    sessionId: string = crypto.randomUUID(),
+    signal?: AbortSignal,
+  ): AsyncGenerator<QueryStreamEvent> {
+    const caller = await this.resolveCaller(authToken)
+    if (!caller) {
+      yield { type: "error", error: DENIAL_MESSAGES.UNAUTHENTICATED, denialReason: "UNAUTHENTICATED" }
+      return
+    }
+    const { userAddress } = caller
+
+    const queryContext: QueryContext = {
+      ...caller,
+      query,
+      timestamp: Date.now(),
+      sessionId,
+    }
+
+    const authorization = await this.authorizeQuery(queryContext)
+    if (!authorization.allowed) {
+      const { error, denialReason } = authorization
+      yield { type: "error", error, denialReason }
+      return
+    }
+    const { capabilities, tokenId } = authorization
+    const accessLevel = capabilities.accessLevel
+
+    if (!capabilities.streamingAllowed) {
+      await this.logSecurityEvent("STREAMING_NOT_ALLOWED", queryContext)
+      yield { type: "error", error: "Streaming responses are not included in your subscription tier." }
+      return
+    }
+
+    const backend = this.backends[accessLevel]
+    const history = this.conversations.getContextWindow(sessionId, userAddress, accessLevel)
+
+    const hold = await this.reserveUsage(queryContext, capabilities, history)
+    if (!hold.success) {
+      const { error, denialReason, retryAfter } = hold
+      yield { type: "error", error, denialReason, retryAfter }
+      return
+    }
+    const { reservation } = hold
+
+    // Also runs when the consumer stops iterating, so an abandoned stream never keeps its hold
+    try {
+      let content = ""
+      let confidence = 0.7
+      let modelId = backend.id
+      let reportedTokens: TokenUsage | undefined
+
+      try {
+        await this.processTEE(queryContext, accessLevel)
+
+        const request = { query, accessLevel, history, maxTokens: reservation.maxTokens, signal }
+        const chunks = backend.stream
+          ? backend.stream(request)
+          : (async function* () {
+              const result = await backend.generate(request)
+              yield {
+                delta: result.content,
+                confidence: result.confidence,
+                modelId: result.modelId,
+                usage: result.usage,
+              }
+            })()
+
+        for await (const chunk of chunks) {
+          if (chunk.confidence !== undefined) confidence = chunk.confidence
+          if (chunk.modelId) modelId = chunk.modelId
+          if (chunk.usage) reportedTokens = chunk.usage
+          if (!chunk.delta) continue
+
+          content += chunk.delta
+          yield { type: "token", content: chunk.delta }
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          console.error("Error streaming query:", error)
+          await this.logSecurityEvent("PROCESSING_ERROR", queryContext, error)
+          yield { type: "error", error: "Failed to process query. Please try again later." }
+          return
+        }
+      }
+
+      const aborted = signal?.aborted ?? false
+      // Providers only report usage for completed generations, so aborted streams are metered locally
+      const metering = this.meterResponse(query, history, capabilities, content, aborted ? undefined : reportedTokens)
+
+      try {
+        const aiResponse: AIResponse = {
+          content,
+          confidence: aborted ? Math.min(confidence, 0.5) : confidence,
+          sources: this.generateSources(capabilities),
+          modelId,
+          tokens: metering.tokens,
+        }
+        const verificationProof = await this.generateVerificationProof(queryContext, aiResponse)
+        const response: AIResponse = {
+          ...aiResponse,
+          verificationProof,
+          anchor: this.anchorService.enqueue(verificationProof),
+        }
+
+        // Aborted streams are billed for the output generated so far, nothing if there was none
+        const usageAmount = this.commitUsage(
+          queryContext,
+          reservation,
+          aborted && !content.trim() ? 0 : metering.quote.units,
+        )
+        if (usageAmount > 0) {
+          this.recordUsage(queryContext, tokenId, metering, usageAmount, aborted)
+        }
+
+        if (content) {
+          this.conversations.appendTurn(sessionId, userAddress, query, content)
+        }
+
+        if (aborted) {
+          await this.logSecurityEvent("STREAM_ABORTED", queryContext)
+        } else {
+          await this.logSuccessfulQuery(queryContext, response, usageAmount)
+        }
+
+        yield { type: "done", response, usageConsumed: usageAmount, aborted }
+      } catch (error) {
+        console.error("Error finalizing streamed query:", error)
+        await this.logSecurityEvent("PROCESSING_ERROR", queryContext, error)
+        yield { type: "error", error: "Failed to process query. Please try again later." }
+      }
+    } finally {
+      this.releaseUsage(reservation)
+    }
+  }
+
+  /**
+   * Dry run of a query's price: nothing is generated or debited. Output length is the tier's
+   * expected output, so the final charge can differ once the response is metered.
+   */
+  async quoteQuery(
+    authToken: string,
+    query: string,
+    sessionId?: string,
+  ): Promise<{
+    success: boolean
+    quote?: UsageQuote
+    remainingUsage?: number
+    error?: string
+    denialReason?: AccessDenialReason
+  }> {
+    const caller = await this.resolveCaller(authToken)
+    if (!caller) {
+      return { success: false, error: DENIAL_MESSAGES.UNAUTHENTICATED, denialReason: "UNAUTHENTICATED" }
+    }
+
+    const access = await this.verifyAccess(caller.userAddress)
+    if (!access.hasAccess || !access.capabilities) {
+      const denialReason = access.denialReason ?? "NO_SUBSCRIPTION"
+      return { success: false, error: DENIAL_MESSAGES[denialReason], denialReason }
     }
+
+    const { accessLevel } = access.capabilities
+    const history =
+      sessionId && this.conversations.canAccess(sessionId, caller.userAddress)
+        ? this.conversations.getContextWindow(sessionId, caller.userAddress, accessLevel)
+        : []
+
+    return {
+      success: true,
+      quote: this.pricing.estimate(this.backends[accessLevel].id, accessLevel, query, history),
+      remainingUsage: access.remainingUsage,
+    }
+  }
+
+  /**
+   * Wallet behind a SIWE session token or an active API key
+   */
+  private async resolveCaller(
+    authToken: string,
+  ): Promise<{ userAddress: string; apiKey?: QueryContext["apiKey"] } | null> {
+    if (isApiKey(authToken)) {
+      const record = this.apiKeys.resolve(authToken)
+      return record ? { userAddress: record.address, apiKey: { id: record.id, tokenId: record.tokenId } } : null
+    }
+
+    const userAddress = await this.resolveSession(authToken)
+    return userAddress ? { userAddress } : null
+  }
+
+  /**
+   * Access, quota and content checks shared by the blocking and streaming query paths
+   */
+  private async authorizeQuery(
+    queryContext: QueryContext,
+  ): Promise<
+    | { allowed: true; capabilities: TierCapabilities; tokenId: string }
+    | { allowed: false; error: string; denialReason?: AccessDenialReason }
+  > {
+    if (!this.conversations.canAccess(queryContext.sessionId, queryContext.userAddress)) {
+      await this.logSecurityEvent("SESSION_OWNERSHIP_VIOLATION", queryContext)
+      return { allowed: false, error: "Conversation session not found." }
+    }
+
+    const accessCheck = await this.verifyAccess(queryContext.userAddress)
+
+    if (!accessCheck.hasAccess) {
+      const denialReason = accessCheck.denialReason ?? "NO_SUBSCRIPTION"
+      await this.logSecurityEvent("ACCESS_DENIED", queryContext, { message: denialReason })
+      return { allowed: false, error: DENIAL_MESSAGES[denialReason], denialReason }
+    }
+
+    // A key draws on its own token alone, so transferring or exhausting it retires the key
+    const { apiKey } = queryContext
+    const keyToken = apiKey && accessCheck.tokens?.find((token) => token.tokenId === apiKey.tokenId)
+    if (apiKey && !keyToken?.isValid) {
+      await this.logSecurityEvent("API_KEY_TOKEN_INVALID", queryContext)
+      return { allowed: false, error: DENIAL_MESSAGES.NO_SUBSCRIPTION, denialReason: "NO_SUBSCRIPTION" }
+    }
+
+    const remainingUsage = apiKey
+      ? this.usageLedger.getRemaining(queryContext.userAddress, apiKey.tokenId)
+      : accessCheck.remainingUsage
+    if (remainingUsage === 0) {
+      await this.logSecurityEvent("QUOTA_EXCEEDED", queryContext)
+      return { allowed: false, error: DENIAL_MESSAGES.QUOTA_EXCEEDED, denialReason: "QUOTA_EXCEEDED" }
+    }
+
+    // The bound token's tier governs a key's queries, not the wallet's next token
+    const capabilities = keyToken ? keyToken.capabilities : accessCheck.capabilities!
+    const validationResult = await this.validateQuery(queryContext.query, capabilities)
+    if (!validationResult.isValid) {
+      return { allowed: false, error: validationResult.error! }
+    }
+
+    return { allowed: true, capabilities, tokenId: keyToken ? keyToken.tokenId : accessCheck.tokenId! }
   }
 
   private async validateQuery(
     query: string,
-    accessLevel: string,
+    capabilities: TierCapabilities,
   ): Promise<{
     isValid: boolean
     error?: string
   }> {
-    if (!query.trim() || query.length > 1000) {
-      return { isValid: false, error: "Query must be between 1-1000 characters." }
+    if (!query.trim()) {
+      return { isValid: false, error: `Query must be between 1-${capabilities.maxQueryLength} characters.` }
     }
 
     const prohibitedTerms = ["hack", "exploit", "illegal", "fraud"]
@@ -229,8 +755,16 @@ export class AIAgent {
       return { isValid: false, error: "Query contains prohibited content." }
     }
 
-    if (accessLevel === "basic" && query.length > 200) {
-      return { isValid: false, error: "Basic tier limited to 200 character queries. Upgrade for longer queries." }
+    if (query.length > capabilities.maxQueryLength) {
+      return {
+        isValid: false,
+        error: `Your tier is limited to ${capabilities.maxQueryLength} character queries. Upgrade for longer queries.`,
+      }
+    }
+
+    const modelId = this.backends[capabilities.accessLevel].id
+    if (capabilities.allowedModels.length > 0 && !capabilities.allowedModels.includes(modelId)) {
+      return { isValid: false, error: `Model ${modelId} is not included in your subscription tier.` }
     }
 
     return { isValid: true }
@@ -249,54 +783,26 @@ export class AIAgent {
     return { attestation, encryptedResult }
   }
 
-  private async generateEnhancedAIResponse(query: string, accessLevel: string): Promise<AIResponse> {
-    const lowerQuery = query.toLowerCase()
-
-    const responses = {
-      defi: {
-        basic: "Current DeFi opportunities include staking TON (~4% APY) and providing liquidity on major DEXs.",
-        premium:
-          "Top DeFi yield strategies: 1) TON staking on Lido (4.2% APY), 2) Uniswap V3 concentrated liquidity (8-15% APY), 3) Aave lending (3-6% APY). Risk assessment: Medium to high depending on strategy.",
-        enterprise:
-          "Comprehensive DeFi analysis: 1) Liquid staking derivatives (Lido, Rocket Pool) offering 4-5% with high liquidity, 2) Concentrated liquidity positions on Uniswap V3 with dynamic rebalancing (potential 10-20% APY), 3) Yield farming on Curve with CRV rewards (6-12% APY), 4) Leveraged strategies using Aave/Compound (15-30% APY, high risk). Include impermanent loss calculations and gas optimization strategies.",
-      },
-      nft: {
-        basic: "NFT market shows mixed trends with blue-chip collections maintaining value.",
-        premium:
-          "NFT market analysis: Blue-chip collections (BAYC, CryptoPunks) showing 15% decline but strong floor support. Utility NFTs and gaming assets gaining traction. AI-generated art emerging as new category.",
-        enterprise:
-          "Detailed NFT market intelligence: 1) Blue-chip analysis with floor price predictions, 2) Emerging categories (AI art, utility tokens, gaming assets), 3) Market sentiment indicators, 4) Liquidity analysis across marketplaces, 5) Upcoming drops and mint strategies with ROI projections.",
-      },
-      default: {
-        basic: "I'm an AI agent powered by DAT subscriptions. I can help with basic crypto and blockchain questions.",
-        premium:
-          "I'm an advanced AI agent with access to real-time market data, DeFi protocols, and NFT analytics. I can provide detailed investment strategies and risk assessments.",
-        enterprise:
-          "I'm an enterprise-grade AI agent with comprehensive blockchain intelligence, advanced analytics, and institutional-level insights. I provide detailed market analysis, risk modeling, and strategic recommendations.",
-      },
-    }
-
-    let responseCategory = "default"
-    let confidence = 0.7
-
-    if (lowerQuery.includes("defi") || lowerQuery.includes("yield")) {
-      responseCategory = "defi"
-      confidence = 0.9
-    } else if (lowerQuery.includes("nft")) {
-      responseCategory = "nft"
-      confidence = 0.85
-    }
-
-    const content = responses[responseCategory as keyof typeof responses][accessLevel as keyof typeof responses.default]
+  private async generateEnhancedAIResponse(
+    query: string,
+    capabilities: TierCapabilities,
+    history: ModelMessage[] = [],
+    maxTokens?: number,
+  ): Promise<AIResponse> {
+    const accessLevel = capabilities.accessLevel
+    const backend = this.backends[accessLevel]
+    const result = await backend.generate({ query, accessLevel, history, maxTokens })
 
     return {
-      content,
-      confidence,
-      sources: this.generateSources(responseCategory, accessLevel),
+      content: result.content,
+      confidence: result.confidence,
+      sources: this.generateSources(capabilities),
+      modelId: result.modelId,
+      tokens: result.usage,
     }
   }
 
-  private generateSources(category: string, accessLevel: string): string[] {
+  private generateSources({ accessLevel }: TierCapabilities): string[] {
     const baseSources = ["DeFiPulse", "CoinGecko", "TONerscan"]
     const premiumSources = [...baseSources, "Messari", "Dune Analytics", "DefiLlama"]
     const enterpriseSources = [...premiumSources, "Chainalysis", "Nansen", "IntoTheBlock"]
@@ -312,56 +818,200 @@ export class AIAgent {
   }
 
   private async generateVerificationProof(context: QueryContext, response: AIResponse): Promise<VerificationProof> {
-    const proofData = {
-      query: context.query,
-      response: response.content,
-      timestamp: context.timestamp,
+    return this.attestor.sign(context.query, response.content, context.userAddress, response.modelId ?? "unknown")
+  }
+
+  /**
+   * Meter a generated response and price it. Token counts reported by the provider are used when
+   * available, otherwise the local tokenizer counts them. Rates are keyed by backend id, since the
+   * model name a provider reports back may carry a version suffix.
+   */
+  private meterResponse(
+    query: string,
+    history: ModelMessage[],
+    { accessLevel }: TierCapabilities,
+    content: string,
+    reported?: TokenUsage,
+  ): { tokens: TokenUsage; tokenSource: QueryUsageRecord["tokenSource"]; quote: UsageQuote } {
+    const tokens = reported ?? {
+      promptTokens: countPromptTokens(this.tokenizer, query, history),
+      completionTokens: this.tokenizer.count(content),
+    }
+    const quote = this.pricing.price(
+      this.backends[accessLevel].id,
+      accessLevel,
+      tokens.promptTokens,
+      tokens.completionTokens,
+    )
+
+    return { tokens, tokenSource: reported ? "provider" : "tokenizer", quote }
+  }
+
+  private recordUsage(
+    context: QueryContext,
+    tokenId: string,
+    metering: ReturnType<AIAgent["meterResponse"]>,
+    units: number,
+    aborted: boolean,
+  ): void {
+    this.usageRecords.record({
       userAddress: context.userAddress,
+      tokenId,
+      sessionId: context.sessionId,
+      modelId: metering.quote.modelId,
+      promptTokens: metering.tokens.promptTokens,
+      completionTokens: metering.tokens.completionTokens,
+      tokenSource: metering.tokenSource,
+      units,
+      timestamp: Math.floor(Date.now() / 1000),
+      apiKeyId: context.apiKey?.id,
+      ...(aborted ? { aborted } : {}),
+    })
+  }
+
+  /**
+   * Hold a query's worst-case cost before inference: its prompt plus the tier's full output limit.
+   * When less quota remains, all of it is held and the output limit shrinks to what it pays for,
+   * so the metered charge stays within the hold. The ledger, and the API key's cap for key callers,
+   * only grant holds their free balance covers, so concurrent queries cannot overspend.
+   * A query is only counted against the API key's rate limit and the tier's burst and daily limits
+   * once its hold is granted, and releasing the hold returns it.
+   */
+  private async reserveUsage(
+    context: QueryContext,
+    { accessLevel, dailyCap }: TierCapabilities,
+    history: ModelMessage[],
+  ): Promise<
+    | { success: true; reservation: QuotaReservation }
+    | { success: false; error: string; denialReason: AccessDenialReason; retryAfter?: number }
+  > {
+    const modelId = this.backends[accessLevel].id
+    const inputTokens = countPromptTokens(this.tokenizer, context.query, history)
+    const worstCase = this.pricing.price(modelId, accessLevel, inputTokens, DEFAULT_MAX_TOKENS[accessLevel]).units
+    // Cheapest charge that still lets the model answer
+    const minimum = this.pricing.price(modelId, accessLevel, inputTokens, 1).units
+    const { apiKey } = context
+
+    // Key callers are held against the key's bound token only
+    const ledgerRemaining = this.usageLedger.getRemaining(context.userAddress, apiKey?.tokenId) ?? 0
+    const keyRemaining = apiKey ? this.apiKeys.getRemaining(apiKey.id) : Number.POSITIVE_INFINITY
+    const available = Math.min(ledgerRemaining, keyRemaining)
+    if (available < minimum) {
+      await this.logSecurityEvent("QUOTA_EXCEEDED", context, {
+        message: keyRemaining < minimum ? "API key quota cap reached" : "Insufficient usage quota",
+      })
+      return {
+        success: false,
+        denialReason: "QUOTA_EXCEEDED",
+        error:
+          keyRemaining < minimum
+            ? `This query needs at least ${minimum} usage units, more than remains under this API key's cap.`
+            : `This query needs at least ${minimum} usage units but only ${ledgerRemaining} remain. ${DENIAL_MESSAGES.QUOTA_EXCEEDED}`,
+      }
+    }
+
+    // Balances were read above without yielding, so these holds cannot be refused
+    const amount = Math.min(worstCase, available)
+    if (apiKey) this.apiKeys.reserve(apiKey.id, amount)
+    const hold = this.usageLedger.reserve(context.userAddress, amount, apiKey?.tokenId)
+    const releaseHolds = () => {
+      this.usageLedger.release(hold.reservationId!)
+      if (apiKey) this.apiKeys.release(apiKey.id, amount)
+    }
+
+    const security = SecurityManager.getInstance()
+    if (apiKey) {
+      const keyLimit = security.checkApiKeyRateLimit(apiKey.id)
+      if (!keyLimit.allowed) {
+        releaseHolds()
+        await this.logSecurityEvent("API_KEY_RATE_LIMITED", context)
+        return {
+          success: false,
+          denialReason: "RATE_LIMITED",
+          error: DENIAL_MESSAGES.RATE_LIMITED,
+          retryAfter: retryAfterSeconds(keyLimit.resetTime),
+        }
+      }
     }
 
-    const proof = `ZKP_${Buffer.from(JSON.stringify(proofData)).toString("base64")}`
-    const publicInputs = [context.userAddress, context.timestamp.toString(), response.confidence.toString()]
+    // Limits are per address, so API keys and delegates share them with the wallet they act for
+    const limits = security.checkQueryLimits(context.userAddress, this.burstLimits[accessLevel], dailyCap)
+    if (!limits.allowed) {
+      releaseHolds()
+      if (apiKey) security.refundApiKeyRateLimit(apiKey.id)
+      await this.logSecurityEvent(limits.limit === "daily" ? "DAILY_CAP_REACHED" : "BURST_LIMITED", context)
+      return {
+        success: false,
+        denialReason: "RATE_LIMITED",
+        error:
+          limits.limit === "daily"
+            ? `Your tier's daily cap of ${dailyCap} queries is reached. It resets at midnight UTC.`
+            : DENIAL_MESSAGES.RATE_LIMITED,
+        retryAfter: retryAfterSeconds(limits.resetTime),
+      }
+    }
+    const maxTokens = Math.min(
+      DEFAULT_MAX_TOKENS[accessLevel],
+      this.pricing.affordableOutputTokens(modelId, accessLevel, inputTokens, amount),
+    )
 
     return {
-      proof,
-      publicInputs,
-      timestamp: Date.now(),
+      success: true,
+      reservation: {
+        id: hold.reservationId!,
+        userAddress: context.userAddress,
+        amount,
+        maxTokens,
+        apiKeyId: apiKey?.id,
+        settled: false,
+      },
     }
   }
 
-  private calculateUsageCost(query: string, accessLevel: string): number {
-    let baseCost = 1
+  /**
+   * Settle a reservation at the metered cost and return the amount charged. The charge is
+   * settled on-chain with the next consumeUsageBatch and never exceeds the remaining quota.
+   */
+  private commitUsage(context: QueryContext, reservation: QuotaReservation, amount: number): number {
+    if (reservation.settled) return 0
+    reservation.settled = true
 
-    if (query.length > 100) baseCost += 1
-    if (query.includes("analysis") || query.includes("strategy")) baseCost += 1
+    let allowed = amount
+    if (reservation.apiKeyId) {
+      this.apiKeys.release(reservation.apiKeyId, reservation.amount)
+      allowed = Math.min(allowed, this.apiKeys.getRemaining(reservation.apiKeyId))
+    }
 
-    switch (accessLevel) {
-      case "enterprise":
-        return Math.max(1, Math.floor(baseCost * 0.5))
-      case "premium":
-        return Math.max(1, Math.floor(baseCost * 0.8))
-      default:
-        return baseCost
+    const commit = this.usageLedger.commit(reservation.id, allowed)
+    if (!commit.success) {
+      console.error(`[AI Agent] Failed to commit usage for ${context.userAddress}: ${commit.error}`)
+      return 0
     }
-  }
 
-  private async consumeUsageWithLogging(userAddress: string, amount: number, context: QueryContext): Promise<string> {
-    if (!this.contract || !this.provider || !this.isValidProvider(this.provider)) {
-      console.log(`[AI Agent] Demo mode - simulated usage consumed: ${amount} for user ${userAddress}`)
-      return `demo_tx_${Date.now()}`
+    if (reservation.apiKeyId) {
+      this.apiKeys.recordUsage(reservation.apiKeyId, commit.charged)
     }
 
-    try {
-      const tx = await this.contract.consumeUsage(userAddress, amount)
-      const receipt = await tx.wait()
+    console.log(
+      `[AI Agent] Usage debited: ${commit.charged} (reserved ${reservation.amount}) for user ${context.userAddress}, ${commit.remaining} remaining`,
+    )
+    return commit.charged
+  }
 
-      console.log(`[AI Agent] Usage consumed: ${amount} for user ${userAddress}, tx: ${receipt.transactionHash}`)
-      return receipt.transactionHash
-    } catch (error) {
-      console.error("Error consuming usage:", error)
-      // Return demo transaction for fallback
-      console.log(`[AI Agent] Fallback - simulated usage consumed: ${amount} for user ${userAddress}`)
-      return `fallback_tx_${Date.now()}`
+  private releaseUsage(reservation: QuotaReservation): void {
+    if (reservation.settled) return
+    reservation.settled = true
+
+    this.usageLedger.release(reservation.id)
+    if (reservation.apiKeyId) {
+      this.apiKeys.release(reservation.apiKeyId, reservation.amount)
+    }
+
+    // The query never produced a charge, so it does not count against the caller's limits
+    const security = SecurityManager.getInstance()
+    security.refundQueryLimits(reservation.userAddress)
+    if (reservation.apiKeyId) {
+      security.refundApiKeyRateLimit(reservation.apiKeyId)
     }
   }
 
@@ -370,6 +1020,7 @@ export class AIAgent {
       timestamp: new Date().toISOString(),
       eventType,
       userAddress: context.userAddress,
+      apiKeyId: context.apiKey?.id,
       sessionId: context.sessionId,
       query: context.query.substring(0, 100),
       error: error?.message,
@@ -383,10 +1034,12 @@ export class AIAgent {
       timestamp: new Date().toISOString(),
       eventType: "SUCCESSFUL_QUERY",
       userAddress: context.userAddress,
+      apiKeyId: context.apiKey?.id,
       sessionId: context.sessionId,
       usageConsumed,
       confidence: response.confidence,
       responseLength: response.content.length,
+      anchorLeaf: response.anchor?.leaf,
     }
 
     console.log(`[Query Log] ${JSON.stringify(logEntry)}`)
@@ -400,25 +1053,102 @@ export class AIAgent {
     return subscription
   }
 
-  async verifyResponse(proof: VerificationProof, response: string): Promise<boolean> {
-    try {
-      const decodedProof = JSON.parse(Buffer.from(proof.proof.replace("ZKP_", ""), "base64").toString())
-      return decodedProof.response === response
-    } catch {
-      return false
+  /**
+   * Conversation sessions owned by a user, most recent first
+   */
+  listSessions(userAddress: string): ConversationSummary[] {
+    return this.conversations.listSessions(userAddress)
+  }
+
+  getSessionHistory(userAddress: string, sessionId: string): ConversationMessage[] | null {
+    return this.conversations.getSession(sessionId, userAddress)?.messages ?? null
+  }
+
+  /**
+   * Per-query token metering for a user, most recent first
+   */
+  getUsageRecords(userAddress: string): QueryUsageRecord[] {
+    return this.usageRecords.list(userAddress)
+  }
+
+  deleteSession(userAddress: string, sessionId: string): boolean {
+    return this.conversations.deleteSession(sessionId, userAddress)
+  }
+
+  /**
+   * Settle all pending usage debits on-chain now instead of waiting for the next interval
+   */
+  async settleUsage(): Promise<SettlementResult> {
+    return this.usageLedger.settle()
+  }
+
+  /**
+   * Compare ledger balances against on-chain remainingUsage and rebase any drift
+   */
+  async reconcileUsage(): Promise<UsageDrift[]> {
+    return this.usageLedger.reconcile()
+  }
+
+  /**
+   * Check an EIP-712 response attestation against the configured agent address
+   */
+  async verifyResponse(proof: VerificationProof, response: string, query?: string): Promise<boolean> {
+    return this.attestor.verify(proof, response, query)
+  }
+
+  /**
+   * Merkle inclusion proof for an anchored response, or null while its batch is pending
+   */
+  getAnchorProof(leaf: string): AnchorProof | null {
+    return this.anchorService.getProof(leaf)
+  }
+
+  /**
+   * Verify a response commitment is included in a root anchored on-chain
+   */
+  async verifyAnchorInclusion(leaf: string): Promise<{
+    status: "pending" | "anchored" | "unknown"
+    verified: boolean
+    proof?: AnchorProof
+  }> {
+    const proof = this.anchorService.getProof(leaf)
+
+    if (!proof) {
+      return { status: this.anchorService.isPending(leaf) ? "pending" : "unknown", verified: false }
     }
+
+    const verified =
+      verifyMerkleProof(leaf, proof.proof, proof.root) && (await this.anchorService.isRootAnchored(proof.root))
+
+    return { status: "anchored", verified, proof }
+  }
+
+  getAgentAddress(): string {
+    return this.attestor.getAgentAddress()
   }
 
   async getAgentStatus(): Promise<{
     isOnline: boolean
+    mode: AgentMode
+    agentAddress: string
     version: string
     supportedFeatures: string[]
     lastUpdate: number
   }> {
     return {
       isOnline: true,
+      mode: this.mode,
+      agentAddress: this.attestor.getAgentAddress(),
       version: "1.0.0",
-      supportedFeatures: ["DeFi Analysis", "NFT Intelligence", "Market Insights", "ZKP Verification"],
+      supportedFeatures: [
+        "DeFi Analysis",
+        "NFT Intelligence",
+        "Market Insights",
+        "EIP-712 Response Attestation",
+        "Streaming Responses",
+        "Multi-turn Conversations",
+        "Batched Usage Settlement",
+      ],
       lastUpdate: Date.now(),
     }
   }
@@ -0,0 +1,195 @@
+import { ethers } from "ethers"
+import type { ResponseAttestation } from "./attestation"
+
+export interface AnchorReceipt {
+  leaf: string
+  queuedAt: number
+}
+
+export interface AnchorProof {
+  leaf: string
+  root: string
+  proof: string[]
+  index: number
+  batchSize: number
+  transactionHash: string
+  anchoredAt: number
+}
+
+/**
+ * Commitment to one query/response/proof triple
+ */
+export function computeAnchorLeaf(attestation: ResponseAttestation): string {
+  return ethers.solidityPackedKeccak256(
+    ["bytes32", "bytes32", "bytes32"],
+    [attestation.queryHash, attestation.responseHash, ethers.keccak256(attestation.signature)],
+  )
+}
+
+function hashPair(a: string, b: string): string {
+  // Sorted pairs, compatible with OpenZeppelin MerkleProof.verify
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [a, b])
+    : ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [b, a])
+}
+
+/**
+ * Build every level of a Merkle tree; an unpaired node is promoted to the next level unchanged
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves")
+  }
+
+  const levels: string[][] = [leaves]
+
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1]
+    const next: string[] = []
+
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i])
+    }
+
+    levels.push(next)
+  }
+
+  return levels
+}
+
+export function getMerkleProof(levels: string[][], index: number): string[] {
+  const proof: string[] = []
+
+  for (let level = 0; level < levels.length - 1; level++) {
+    const nodes = levels[level]
+    const sibling = index % 2 === 0 ? index + 1 : index - 1
+    if (sibling < nodes.length) {
+      proof.push(nodes[sibling])
+    }
+    index = Math.floor(index / 2)
+  }
+
+  return proof
+}
+
+/**
+ * Client-side inclusion check of a leaf against an anchored root
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf)
+  return computed.toLowerCase() === root.toLowerCase()
+}
+
+/**
+ * Collects response commitments and anchors one Merkle root per time window via anchorBatch
+ */
+export class AnchorService {
+  private pending: string[] = []
+  private proofs: Map<string, AnchorProof> = new Map()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private flushing: Promise<void> | null = null
+
+  constructor(
+    private contract: ethers.Contract | null,
+    private readonly windowMs = 60000,
+  ) {}
+
+  enqueue(attestation: ResponseAttestation): AnchorReceipt {
+    const leaf = computeAnchorLeaf(attestation)
+    this.pending.push(leaf)
+    this.scheduleFlush()
+
+    return { leaf, queuedAt: Date.now() }
+  }
+
+  /**
+   * Inclusion proof for a leaf, or null while its batch is still pending
+   */
+  getProof(leaf: string): AnchorProof | null {
+    return this.proofs.get(leaf) ?? null
+  }
+
+  isPending(leaf: string): boolean {
+    return this.pending.includes(leaf)
+  }
+
+  /**
+   * Whether a root has been recorded by anchorBatch on-chain
+   */
+  async isRootAnchored(root: string): Promise<boolean> {
+    if (!this.contract) {
+      return Array.from(this.proofs.values()).some((proof) => proof.root === root)
+    }
+
+    try {
+      const [, , timestamp] = await this.contract.anchoredBatches(root)
+      return timestamp > BigInt(0)
+    } catch (error) {
+      console.error("Error checking anchored root:", error)
+      return false
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing
+    }
+    if (this.pending.length === 0) return
+
+    const leaves = this.pending
+    this.pending = []
+    this.flushing = this.anchor(leaves)
+
+    try {
+      await this.flushing
+    } finally {
+      this.flushing = null
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, this.windowMs)
+  }
+
+  private async anchor(leaves: string[]): Promise<void> {
+    const levels = buildMerkleTree(leaves)
+    const root = levels[levels.length - 1][0]
+    let transactionHash: string
+
+    if (!this.contract) {
+      transactionHash = `demo_anchor_${Date.now()}`
+      console.log(`[Anchor] Demo mode - simulated anchoring of ${leaves.length} commitments, root ${root}`)
+    } else {
+      try {
+        const tx = await this.contract.anchorBatch(root, leaves.length)
+        const receipt = await tx.wait()
+        transactionHash = receipt.hash
+        console.log(`[Anchor] Anchored ${leaves.length} commitments, root ${root}, tx: ${transactionHash}`)
+      } catch (error) {
+        console.error("Error anchoring batch:", error)
+        // Requeue so the commitments are retried in the next window
+        this.pending.unshift(...leaves)
+        this.scheduleFlush()
+        return
+      }
+    }
+
+    const anchoredAt = Math.floor(Date.now() / 1000)
+    leaves.forEach((leaf, index) => {
+      this.proofs.set(leaf, {
+        leaf,
+        root,
+        proof: getMerkleProof(levels, index),
+        index,
+        batchSize: leaves.length,
+        transactionHash,
+        anchoredAt,
+      })
+    })
+  }
+}
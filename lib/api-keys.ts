@@ -0,0 +1,237 @@
+import { ethers } from "ethers"
+import { SiweAuthManager } from "./siwe"
+
+export interface ApiKeyRequestFields {
+  address: string
+  tokenId: string
+  label: string
+  // queries the key may spend over its lifetime
+  quotaCap: number
+  expiresAt: string
+  nonce: string
+}
+
+/**
+ * An API key as stored server-side; the key itself is never kept, only its hash
+ */
+export interface ApiKeyRecord {
+  id: string
+  address: string
+  tokenId: string
+  label: string
+  quotaCap: number
+  used: number
+  createdAt: number
+  expiresAt: number
+  revokedAt?: number
+}
+
+export const API_KEY_PREFIX = "datk_"
+
+const API_KEY_HEADER = "DAT AI Agent API key request"
+const MAX_KEY_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000
+
+/**
+ * Render the message a holder signs to mint an API key
+ */
+export function buildApiKeyMessage(fields: ApiKeyRequestFields): string {
+  return [
+    API_KEY_HEADER,
+    "",
+    `Address: ${fields.address}`,
+    `Token ID: ${fields.tokenId}`,
+    `Label: ${fields.label}`,
+    `Quota Cap: ${fields.quotaCap}`,
+    `Expires At: ${fields.expiresAt}`,
+    `Nonce: ${fields.nonce}`,
+  ].join("\n")
+}
+
+export function parseApiKeyMessage(message: string): ApiKeyRequestFields | null {
+  const lines = message.split("\n")
+  if (lines[0] !== API_KEY_HEADER) return null
+
+  const fields: Record<string, string> = {}
+  for (const line of lines.slice(2)) {
+    const match = line.match(/^(Address|Token ID|Label|Quota Cap|Expires At|Nonce): (.*)$/)
+    if (match) fields[match[1]] = match[2]
+  }
+
+  if (!ethers.isAddress(fields["Address"]) || !/^[\w-]+$/.test(fields["Token ID"] ?? "")) return null
+  if (!/^\d+$/.test(fields["Quota Cap"] ?? "") || !fields["Expires At"] || !fields["Nonce"]) return null
+
+  return {
+    address: fields["Address"],
+    tokenId: fields["Token ID"],
+    label: fields["Label"] ?? "",
+    quotaCap: Number(fields["Quota Cap"]),
+    expiresAt: fields["Expires At"],
+    nonce: fields["Nonce"],
+  }
+}
+
+function hashApiKey(key: string): string {
+  return ethers.sha256(ethers.toUtf8Bytes(key))
+}
+
+/**
+ * API key from the X-API-Key header, or an Authorization bearer carrying an API key
+ */
+export function getApiKey(request: Request): string | null {
+  const header = request.headers.get("x-api-key")
+  if (header) return header
+
+  const authorization = request.headers.get("authorization")
+  return authorization?.startsWith(`Bearer ${API_KEY_PREFIX}`) ? authorization.slice(7) : null
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX)
+}
+
+/**
+ * Server-side store of wallet-signed API keys for programmatic agent access. Keys are
+ * tied to a DAT token and carry their own quota cap, expiry and revocation.
+ */
+export class ApiKeyManager {
+  private static instance: ApiKeyManager
+  // key hash -> record
+  private keys: Map<string, ApiKeyRecord> = new Map()
+  // key id -> usage held by the key's in-flight queries
+  private reserved: Map<string, number> = new Map()
+
+  static getInstance(): ApiKeyManager {
+    if (!ApiKeyManager.instance) {
+      ApiKeyManager.instance = new ApiKeyManager()
+    }
+    return ApiKeyManager.instance
+  }
+
+  /**
+   * Verify a signed key request and mint a key. The plaintext key is returned once and never stored.
+   * `holdsToken` checks the verified signer still holds a valid token with the requested id.
+   */
+  async create(
+    message: string,
+    signature: string,
+    holdsToken: (address: string, tokenId: string) => Promise<boolean>,
+  ): Promise<{
+    success: boolean
+    key?: string
+    record?: ApiKeyRecord
+    error?: string
+  }> {
+    const fields = parseApiKeyMessage(message)
+    if (!fields) {
+      return { success: false, error: "Malformed API key request" }
+    }
+
+    if (!SiweAuthManager.getInstance().consumeNonce(fields.nonce)) {
+      return { success: false, error: "Invalid or expired nonce" }
+    }
+
+    const now = Date.now()
+    const expiresAt = Date.parse(fields.expiresAt)
+    if (Number.isNaN(expiresAt) || expiresAt <= now || expiresAt > now + MAX_KEY_LIFETIME_MS) {
+      return { success: false, error: "API key expiry must be in the future and within a year" }
+    }
+    if (fields.quotaCap <= 0) {
+      return { success: false, error: "API key quota cap must be positive" }
+    }
+
+    let signer: string
+    try {
+      signer = ethers.verifyMessage(message, signature)
+    } catch {
+      return { success: false, error: "Invalid signature" }
+    }
+
+    if (signer !== ethers.getAddress(fields.address)) {
+      return { success: false, error: "Signature does not match address" }
+    }
+
+    if (!(await holdsToken(signer, fields.tokenId))) {
+      return { success: false, error: `Address does not hold a valid token ${fields.tokenId}` }
+    }
+
+    const key = `${API_KEY_PREFIX}${ethers.hexlify(ethers.randomBytes(32)).slice(2)}`
+    const record: ApiKeyRecord = {
+      id: ethers.hexlify(ethers.randomBytes(8)).slice(2),
+      address: signer,
+      tokenId: fields.tokenId,
+      label: fields.label,
+      quotaCap: fields.quotaCap,
+      used: 0,
+      createdAt: now,
+      expiresAt,
+    }
+    this.keys.set(hashApiKey(key), record)
+
+    return { success: true, key, record: { ...record } }
+  }
+
+  /**
+   * Active key record for a presented key, or null once it is unknown, expired, revoked or used up
+   */
+  resolve(key: string): ApiKeyRecord | null {
+    const record = this.keys.get(hashApiKey(key))
+    if (!record || record.revokedAt || record.expiresAt < Date.now() || record.used >= record.quotaCap) {
+      return null
+    }
+    return record
+  }
+
+  getRemaining(keyId: string): number {
+    const record = this.findById(keyId)
+    return record ? Math.max(0, record.quotaCap - record.used - (this.reserved.get(keyId) ?? 0)) : 0
+  }
+
+  /**
+   * Hold part of a key's cap for a query in flight; false when the cap cannot cover it
+   */
+  reserve(keyId: string, amount: number): boolean {
+    if (this.getRemaining(keyId) < amount) return false
+
+    this.reserved.set(keyId, (this.reserved.get(keyId) ?? 0) + amount)
+    return true
+  }
+
+  release(keyId: string, amount: number): void {
+    const held = (this.reserved.get(keyId) ?? 0) - amount
+    if (held > 0) {
+      this.reserved.set(keyId, held)
+    } else {
+      this.reserved.delete(keyId)
+    }
+  }
+
+  recordUsage(keyId: string, amount: number): void {
+    const record = this.findById(keyId)
+    if (record) record.used += amount
+  }
+
+  /**
+   * Every key minted by an address, newest first
+   */
+  list(address: string): ApiKeyRecord[] {
+    return Array.from(this.keys.values())
+      .filter((record) => record.address.toLowerCase() === address.toLowerCase())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((record) => ({ ...record }))
+  }
+
+  /**
+   * Revoke one of an address's keys; false when the key is not theirs
+   */
+  revoke(address: string, keyId: string): boolean {
+    const record = this.findById(keyId)
+    if (!record || record.address.toLowerCase() !== address.toLowerCase()) return false
+
+    record.revokedAt ??= Date.now()
+    return true
+  }
+
+  private findById(keyId: string): ApiKeyRecord | undefined {
+    return Array.from(this.keys.values()).find((record) => record.id === keyId)
+  }
+}
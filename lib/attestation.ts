@@ -0,0 +1,130 @@
+import { ethers } from "ethers"
+import { DAT_CONTRACT_ADDRESS } from "./contracts"
+
+export interface ResponseAttestation {
+  signature: string
+  signer: string
+  queryHash: string
+  responseHash: string
+  userAddress: string
+  modelId: string
+  timestamp: number
+}
+
+export const ATTESTATION_TYPES = {
+  ResponseAttestation: [
+    { name: "queryHash", type: "bytes32" },
+    { name: "responseHash", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "timestamp", type: "uint256" },
+    { name: "modelId", type: "string" },
+  ],
+}
+
+export function getAttestationDomain(): ethers.TypedDataDomain {
+  const chainId = Number(process.env.NEXT_PUBLIC_DAT_CHAIN_ID || 0)
+
+  return {
+    name: "DAT AI Agent",
+    version: "1",
+    ...(chainId ? { chainId } : {}),
+    ...(ethers.isAddress(DAT_CONTRACT_ADDRESS) ? { verifyingContract: DAT_CONTRACT_ADDRESS } : {}),
+  }
+}
+
+export function hashContent(content: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(content))
+}
+
+/**
+ * Signs and verifies EIP-712 attestations over agent responses
+ */
+export class ResponseAttestor {
+  private signingKey: ethers.Wallet | ethers.HDNodeWallet
+  private agentAddress: string
+
+  constructor(privateKey?: string, agentAddress?: string) {
+    const key = privateKey || process.env.AI_AGENT_PRIVATE_KEY
+
+    if (key) {
+      this.signingKey = new ethers.Wallet(key)
+    } else {
+      this.signingKey = ethers.Wallet.createRandom()
+      console.warn("[Attestation] No AI_AGENT_PRIVATE_KEY configured, using an ephemeral signing key")
+    }
+
+    this.agentAddress = ethers.getAddress(
+      agentAddress || process.env.NEXT_PUBLIC_AI_AGENT_ADDRESS || this.signingKey.address,
+    )
+
+    if (this.agentAddress !== this.signingKey.address) {
+      console.warn(`[Attestation] Signing key ${this.signingKey.address} does not match agent ${this.agentAddress}`)
+    }
+  }
+
+  getAgentAddress(): string {
+    return this.agentAddress
+  }
+
+  async sign(query: string, response: string, userAddress: string, modelId: string): Promise<ResponseAttestation> {
+    const value = {
+      queryHash: hashContent(query),
+      responseHash: hashContent(response),
+      user: ethers.getAddress(userAddress),
+      timestamp: Math.floor(Date.now() / 1000),
+      modelId,
+    }
+
+    const signature = await this.signingKey.signTypedData(getAttestationDomain(), ATTESTATION_TYPES, value)
+
+    return {
+      signature,
+      signer: this.signingKey.address,
+      queryHash: value.queryHash,
+      responseHash: value.responseHash,
+      userAddress: value.user,
+      modelId,
+      timestamp: value.timestamp,
+    }
+  }
+
+  /**
+   * Recover the signer and check it against the configured agent address.
+   * `query` is optional since clients may only hold the response text.
+   */
+  verify(attestation: ResponseAttestation, response: string, query?: string): boolean {
+    return verifyAttestation(attestation, this.agentAddress, response, query)
+  }
+}
+
+/**
+ * Stateless check usable by clients that only know the agent address
+ */
+export function verifyAttestation(
+  attestation: ResponseAttestation,
+  agentAddress: string,
+  response: string,
+  query?: string,
+): boolean {
+  try {
+    if (hashContent(response) !== attestation.responseHash) return false
+    if (query !== undefined && hashContent(query) !== attestation.queryHash) return false
+
+    const recovered = ethers.verifyTypedData(
+      getAttestationDomain(),
+      ATTESTATION_TYPES,
+      {
+        queryHash: attestation.queryHash,
+        responseHash: attestation.responseHash,
+        user: attestation.userAddress,
+        timestamp: attestation.timestamp,
+        modelId: attestation.modelId,
+      },
+      attestation.signature,
+    )
+
+    return recovered === ethers.getAddress(agentAddress)
+  } catch {
+    return false
+  }
+}
@@ -1,5 +1,7 @@
 import { ethers } from "ethers"
-import { DAT_CONTRACT_ADDRESS, DAT_ABI } from "./contracts"
+import { RpcEventSource, type BillingEventSource, type IndexedEvents } from "./dat-events"
+import type { ContributorTier } from "./contracts"
+import type { QueryUsageRecord } from "./usage-records"
 
 export interface UsageEvent {
   id: string
@@ -10,6 +12,29 @@ export interface UsageEvent {
   transactionHash: string
   queryType: string
   cost: number
+  // Per-query metering; absent on on-chain UsageConsumed events, which settle queries in batches
+  promptTokens?: number
+  completionTokens?: number
+  modelId?: string
+}
+
+/**
+ * Usage events for individual metered queries, ahead of their batched on-chain settlement
+ */
+export function usageEventsFromRecords(records: QueryUsageRecord[]): UsageEvent[] {
+  return records.map((record) => ({
+    id: `query_${record.id}`,
+    userAddress: record.userAddress,
+    tokenId: record.tokenId,
+    usageAmount: record.units,
+    timestamp: record.timestamp,
+    transactionHash: "",
+    queryType: record.aborted ? "ai_query_aborted" : "ai_query",
+    cost: record.units,
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    modelId: record.modelId,
+  }))
 }
 
 export interface RevenueEvent {
@@ -37,6 +62,17 @@ export interface BillingStats {
   }>
 }
 
+export interface MintEvent {
+  userAddress: string
+  tokenId: string
+  tierId: number
+  tierName: string
+  timestamp: number
+  expiryDate: number
+  transactionHash: string
+  cost: number
+}
+
 export interface UserBilling {
   address: string
   totalSpent: number
@@ -47,19 +83,79 @@ export interface UserBilling {
     purchaseDate: number
     expiryDate: number
     cost: number
-    status: "active" | "expired" | "cancelled"
+    status: "active" | "expired" | "cancelled" | "transferred"
   }>
   usageHistory: UsageEvent[]
 }
 
+export interface ContributorEarnings {
+  address: string
+  totalAccrued: number
+  totalClaimed: number
+  pending: number
+  tiers: Array<{
+    tierId: number
+    tierName: string
+    share: number
+    earnings: number
+    subscriptions: number
+    usage: number
+  }>
+  monthlyHistory: Array<{
+    month: string
+    accrued: number
+    claimed: number
+    subscriptions: number
+  }>
+  claims: Array<{
+    amount: number
+    timestamp: number
+    transactionHash: string
+  }>
+}
+
+interface TokenState {
+  holder: string
+  tierId: number
+  expiryTime: number
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+interface TierTerms {
+  // wei, as a decimal string
+  price: string
+  duration: number
+}
+
+/**
+ * Look up a tier's price and duration as of a log, replaying its creation and later
+ * SubscriptionTierUpdated edits in block order
+ */
+function tierTermsLookup({ tiers, tierUpdates }: Pick<IndexedEvents, "tiers" | "tierUpdates">) {
+  const changes = [...tiers, ...tierUpdates].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  return (tierId: number, at: { blockNumber: number; logIndex: number }): TierTerms | undefined => {
+    let terms: TierTerms | undefined
+    for (const change of changes) {
+      if (change.blockNumber > at.blockNumber || (change.blockNumber === at.blockNumber && change.logIndex > at.logIndex)) {
+        break
+      }
+      if (change.tierId === tierId) terms = { price: change.price, duration: change.duration }
+    }
+    return terms
+  }
+}
+
 export class BillingManager {
-  private contract: ethers.Contract
-  private provider: ethers.Provider
-  private eventCache: Map<string, any[]> = new Map()
+  private source: BillingEventSource
+  private eventCache: Map<number, Promise<IndexedEvents>> = new Map()
 
-  constructor(provider: ethers.Provider, signer?: ethers.Signer) {
-    this.provider = provider
-    this.contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, signer || provider)
+  /**
+   * Reads from an event index when given one, otherwise straight from the provider's RPC
+   */
+  constructor(source: BillingEventSource | ethers.Provider) {
+    this.source = "getEvents" in source ? source : new RpcEventSource(source)
   }
 
   /**
@@ -80,10 +176,8 @@ export class BillingManager {
       const revenueByTier: Record<string, number> = {}
       const usageByTier: Record<string, number> = {}
 
-      // Group by tier (simplified - in production, fetch tier info from contract)
       mintEvents.forEach((event) => {
-        const tierName = `Tier ${event.tierId}`
-        revenueByTier[tierName] = (revenueByTier[tierName] || 0) + event.cost
+        revenueByTier[event.tierName] = (revenueByTier[event.tierName] || 0) + event.cost
       })
 
       usageEvents.forEach((event) => {
@@ -113,22 +207,89 @@ export class BillingManager {
    */
   async getUserBilling(userAddress: string): Promise<UserBilling> {
     try {
-      const [usageEvents, mintEvents] = await Promise.all([
+      const user = userAddress.toLowerCase()
+      const [usageEvents, mintEvents, allMintEvents, events] = await Promise.all([
         this.getUserUsageEvents(userAddress),
         this.getUserMintEvents(userAddress),
+        this.getMintEvents(),
+        this.getEvents(0),
       ])
-
-      const totalSpent = mintEvents.reduce((sum, event) => sum + event.cost, 0)
+      const { renewals, topUps, upgrades, transfers, tiers } = events
+
+      const tierNames = new Map(allMintEvents.map((event) => [event.tokenId, event.tierName]))
+      const userRenewals = renewals.filter((event) => event.user.toLowerCase() === user)
+      const userTopUps = topUps.filter((event) => event.user.toLowerCase() === user)
+      const userUpgrades = upgrades.filter((event) => event.user.toLowerCase() === user)
+      const tiersById = new Map(tiers.map((tier) => [tier.tierId, tier]))
+      const tierName = (tierId: number) => tiersById.get(tierId)?.name ?? `Tier ${tierId}`
+      const termsAt = tierTermsLookup(events)
+      const toTon = (wei: string) => Number.parseFloat(ethers.formatEther(wei))
+
+      const tokenStates = this.getTokenStates(events, allMintEvents)
+      // Tokens acquired from another holder, as opposed to minted by the user
+      const acquisitions = transfers.filter(
+        (event) =>
+          event.to.toLowerCase() === user && event.from !== ZERO_ADDRESS && event.from.toLowerCase() !== user,
+      )
+
+      const totalSpent =
+        mintEvents.reduce((sum, event) => sum + event.cost, 0) +
+        userRenewals.reduce((sum, event) => sum + toTon(event.amount), 0) +
+        userTopUps.reduce((sum, event) => sum + toTon(event.amount), 0) +
+        userUpgrades.reduce((sum, event) => sum + toTon(event.amount), 0)
       const totalUsage = usageEvents.reduce((sum, event) => sum + event.usageAmount, 0)
 
-      const subscriptionHistory = mintEvents.map((event) => ({
-        tokenId: event.tokenId,
-        tierName: `Tier ${event.tierId}`,
-        purchaseDate: event.timestamp,
-        expiryDate: event.timestamp + 30 * 24 * 60 * 60, // Simplified
-        cost: event.cost,
-        status: Date.now() / 1000 < event.timestamp + 30 * 24 * 60 * 60 ? "active" : ("expired" as const),
-      }))
+      const now = Date.now() / 1000
+      const statusOf = (tokenId: string, expiryDate: number) => {
+        const holder = tokenStates.get(tokenId)?.holder
+        if (holder && holder !== user) return "transferred" as const
+        return now < expiryDate ? ("active" as const) : ("expired" as const)
+      }
+
+      const subscriptionHistory = [
+        ...mintEvents.map((event) => ({
+          tokenId: event.tokenId,
+          tierName: event.tierName,
+          purchaseDate: event.timestamp,
+          expiryDate: event.expiryDate,
+          cost: event.cost,
+          status: statusOf(event.tokenId, event.expiryDate),
+        })),
+        // Secondary-market purchases are settled off-chain, so only the transfer itself is known
+        ...acquisitions.map((event) => {
+          const state = tokenStates.get(event.tokenId)
+          const expiryDate = state?.expiryTime ?? 0
+          return {
+            tokenId: event.tokenId,
+            tierName: `${state ? tierName(state.tierId) : "Subscription"} (acquired)`,
+            purchaseDate: event.timestamp,
+            expiryDate,
+            cost: 0,
+            status: statusOf(event.tokenId, expiryDate),
+          }
+        }),
+        // Each renewal is its own purchase, covering the period up to the new expiry
+        ...userRenewals.map((event) => ({
+          tokenId: event.tokenId,
+          tierName: `${tierNames.get(event.tokenId) ?? "Subscription"} (renewal)`,
+          purchaseDate: event.timestamp,
+          expiryDate: event.expiryTime,
+          cost: toTon(event.amount),
+          status: statusOf(event.tokenId, event.expiryTime),
+        })),
+        // Upgrades restart the token on the new tier; cost is what was paid after the pro-rated credit
+        ...userUpgrades.map((event) => {
+          const expiryDate = event.timestamp + (termsAt(event.toTierId, event)?.duration ?? 0)
+          return {
+            tokenId: event.tokenId,
+            tierName: `${tierName(event.toTierId)} (upgrade from ${tierName(event.fromTierId)})`,
+            purchaseDate: event.timestamp,
+            expiryDate,
+            cost: toTon(event.amount),
+            status: statusOf(event.tokenId, expiryDate),
+          }
+        }),
+      ].sort((a, b) => a.purchaseDate - b.purchaseDate)
 
       return {
         address: userAddress,
@@ -150,31 +311,201 @@ export class BillingManager {
   }
 
   /**
-   * Get usage events from contract logs
+   * Revenue a contributor has accrued and claimed, broken down by the tiers they earn from.
+   * contributorTiers (from fetchContributorTiers) lists tiers that have not paid out yet.
    */
-  private async getUsageEvents(fromBlock = 0): Promise<UsageEvent[]> {
-    const cacheKey = `usage_${fromBlock}`
-    if (this.eventCache.has(cacheKey)) {
-      return this.eventCache.get(cacheKey)!
+  async getContributorEarnings(
+    contributorAddress: string,
+    contributorTiers: ContributorTier[] = [],
+  ): Promise<ContributorEarnings> {
+    const contributor = contributorAddress.toLowerCase()
+
+    try {
+      const { mints, usage, accruals, claims, upgrades, tiers: tierEvents } = await this.getEvents(0)
+
+      const tierNames = new Map(tierEvents.map((tier) => [tier.tierId, tier.name]))
+      // Payments made by an upgrade accrue under the tier upgraded to
+      const upgradeTiers = new Map(upgrades.map((event) => [`${event.transactionHash}_${event.tokenId}`, event.toTierId]))
+      const ownAccruals = accruals.filter((accrual) => accrual.contributor.toLowerCase() === contributor)
+      const ownClaims = claims
+        .filter((claim) => claim.contributor.toLowerCase() === contributor)
+        .map((claim) => ({
+          amount: Number.parseFloat(ethers.formatEther(claim.amount)),
+          timestamp: claim.timestamp,
+          transactionHash: claim.transactionHash,
+        }))
+
+      const tiers = new Map<number, ContributorEarnings["tiers"][number]>()
+      const tierEntry = (tierId: number, share: number) => {
+        if (!tiers.has(tierId)) {
+          const tierName = tierNames.get(tierId) ?? `Tier ${tierId}`
+          tiers.set(tierId, { tierId, tierName, share, earnings: 0, subscriptions: 0, usage: 0 })
+        }
+        return tiers.get(tierId)!
+      }
+      contributorTiers.forEach((tier) => tierEntry(tier.tierId, tier.share))
+
+      // Tiers each token has been on, in chain order, so usage is credited to the tier it was drawn on
+      const tierHistory = new Map<string, Array<{ blockNumber: number; logIndex: number; tierId: number }>>()
+      const orderedUpgrades = [...upgrades].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      // mintDAT accrues revenue before emitting DATMinted, so the mint tier starts ahead of the whole block
+      mints.forEach((event) =>
+        tierHistory.set(event.tokenId, [{ blockNumber: event.blockNumber, logIndex: -1, tierId: event.tierId }]),
+      )
+      orderedUpgrades.forEach((event) => tierHistory.get(event.tokenId)?.push({ ...event, tierId: event.toTierId }))
+      const tierAt = (tokenId: string, blockNumber: number, logIndex: number) => {
+        let tierId: number | undefined
+        for (const step of tierHistory.get(tokenId) ?? []) {
+          if (step.blockNumber > blockNumber || (step.blockNumber === blockNumber && step.logIndex > logIndex)) break
+          tierId = step.tierId
+        }
+        return tierId
+      }
+
+      const months = new Map<string, ContributorEarnings["monthlyHistory"][number]>()
+      const monthOf = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 7)
+      const monthEntry = (month: string) => {
+        if (!months.has(month)) {
+          months.set(month, { month, accrued: 0, claimed: 0, subscriptions: 0 })
+        }
+        return months.get(month)!
+      }
+
+      ownAccruals.forEach((accrual) => {
+        const amount = Number.parseFloat(ethers.formatEther(accrual.amount))
+        const tierId =
+          upgradeTiers.get(`${accrual.transactionHash}_${accrual.tokenId}`) ??
+          tierAt(accrual.tokenId, accrual.blockNumber, accrual.logIndex) ??
+          0
+
+        tierEntry(tierId, accrual.share).earnings += amount
+        monthEntry(monthOf(accrual.timestamp)).accrued += amount
+      })
+
+      // New subscriptions are mints onto a tier and upgrades into it; renewals and top-ups extend existing ones
+      const subscriptionStarts = [
+        ...mints.map((event) => ({ tierId: event.tierId, timestamp: event.timestamp })),
+        ...upgrades.map((event) => ({ tierId: event.toTierId, timestamp: event.timestamp })),
+      ]
+      subscriptionStarts.forEach((start) => {
+        const tier = tiers.get(start.tierId)
+        if (!tier) return
+        tier.subscriptions += 1
+        monthEntry(monthOf(start.timestamp)).subscriptions += 1
+      })
+
+      ownClaims.forEach((claim) => {
+        monthEntry(monthOf(claim.timestamp)).claimed += claim.amount
+      })
+
+      // Usage on tokens while they were on a tier this contributor earns from
+      usage.forEach((event) => {
+        const tier = tiers.get(tierAt(event.tokenId, event.blockNumber, event.logIndex) ?? -1)
+        if (tier) tier.usage += event.amount
+      })
+
+      const totalAccrued = Array.from(tiers.values()).reduce((sum, tier) => sum + tier.earnings, 0)
+      const totalClaimed = ownClaims.reduce((sum, claim) => sum + claim.amount, 0)
+
+      return {
+        address: contributorAddress,
+        totalAccrued,
+        totalClaimed,
+        pending: Math.max(0, totalAccrued - totalClaimed),
+        tiers: Array.from(tiers.values()).sort((a, b) => a.tierId - b.tierId),
+        monthlyHistory: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+        claims: ownClaims,
+      }
+    } catch (error) {
+      console.error("Error fetching contributor earnings:", error)
+      return {
+        address: contributorAddress,
+        totalAccrued: 0,
+        totalClaimed: 0,
+        pending: 0,
+        tiers: [],
+        monthlyHistory: [],
+        claims: [],
+      }
+    }
+  }
+
+  /**
+   * Current holder, tier and expiry of every token, replayed in chain order from its mint
+   * through later transfers, renewals and upgrades
+   */
+  private getTokenStates(events: IndexedEvents, mintEvents: MintEvent[]): Map<string, TokenState> {
+    const termsAt = tierTermsLookup(events)
+    const states = new Map<string, TokenState>(
+      mintEvents.map((mint) => [
+        mint.tokenId,
+        { holder: mint.userAddress.toLowerCase(), tierId: mint.tierId, expiryTime: mint.expiryDate },
+      ]),
+    )
+
+    type TokenChange = { blockNumber: number; logIndex: number; tokenId: string; apply: (state: TokenState) => void }
+    const changes: TokenChange[] = [
+      ...events.transfers.map((event) => ({
+        ...event,
+        apply: (state: TokenState) => {
+          state.holder = event.to.toLowerCase()
+        },
+      })),
+      ...events.renewals.map((event) => ({
+        ...event,
+        apply: (state: TokenState) => {
+          state.expiryTime = event.expiryTime
+        },
+      })),
+      ...events.upgrades.map((event) => ({
+        ...event,
+        apply: (state: TokenState) => {
+          state.tierId = event.toTierId
+          state.expiryTime = event.timestamp + (termsAt(event.toTierId, event)?.duration ?? 0)
+        },
+      })),
+    ]
+
+    changes
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+      .forEach((change) => {
+        const state = states.get(change.tokenId)
+        if (state) change.apply(state)
+      })
+
+    return states
+  }
+
+  /**
+   * Fetch all events from the source once per fromBlock
+   */
+  private getEvents(fromBlock: number): Promise<IndexedEvents> {
+    let events = this.eventCache.get(fromBlock)
+    if (!events) {
+      events = this.source.getEvents(fromBlock)
+      events.catch(() => this.eventCache.delete(fromBlock))
+      this.eventCache.set(fromBlock, events)
     }
+    return events
+  }
 
+  /**
+   * Get usage events from contract logs
+   */
+  private async getUsageEvents(fromBlock = 0): Promise<UsageEvent[]> {
     try {
-      const filter = this.contract.filters.UsageConsumed()
-      const events = await this.contract.queryFilter(filter, fromBlock)
-
-      const usageEvents: UsageEvent[] = events.map((event, index) => ({
-        id: `usage_${event.blockNumber}_${index}`,
-        userAddress: event.args?.user || "",
-        tokenId: event.args?.tokenId?.toString() || "",
-        usageAmount: event.args?.amount?.toNumber() || 0,
-        timestamp: Date.now() / 1000, // Simplified - should get from block
+      const { usage } = await this.getEvents(fromBlock)
+
+      return usage.map((event) => ({
+        id: `usage_${event.blockNumber}_${event.logIndex}`,
+        userAddress: event.user,
+        tokenId: event.tokenId,
+        usageAmount: event.amount,
+        timestamp: event.timestamp,
         transactionHash: event.transactionHash,
         queryType: "ai_query",
-        cost: event.args?.amount?.toNumber() || 0,
+        cost: event.amount,
       }))
-
-      this.eventCache.set(cacheKey, usageEvents)
-      return usageEvents
     } catch (error) {
       console.error("Error fetching usage events:", error)
       return []
@@ -185,27 +516,32 @@ export class BillingManager {
    * Get revenue events from contract logs
    */
   private async getRevenueEvents(fromBlock = 0): Promise<RevenueEvent[]> {
-    const cacheKey = `revenue_${fromBlock}`
-    if (this.eventCache.has(cacheKey)) {
-      return this.eventCache.get(cacheKey)!
-    }
-
     try {
-      const filter = this.contract.filters.RevenueDistributed()
-      const events = await this.contract.queryFilter(filter, fromBlock)
-
-      const revenueEvents: RevenueEvent[] = events.map((event, index) => ({
-        id: `revenue_${event.blockNumber}_${index}`,
-        tokenId: event.args?.tokenId?.toString() || "",
-        amount: Number.parseFloat(ethers.formatEther(event.args?.amount || 0)),
-        timestamp: Date.now() / 1000,
-        transactionHash: event.transactionHash,
-        contributors: [], // Simplified
-        shares: [],
-      }))
+      const { revenue, accruals } = await this.getEvents(fromBlock)
+
+      // Contributor splits are accrued in the same transaction as the payment
+      const splits = new Map<string, { contributors: string[]; shares: number[] }>()
+      accruals.forEach((accrual) => {
+        const key = `${accrual.transactionHash}_${accrual.tokenId}`
+        const split = splits.get(key) ?? { contributors: [], shares: [] }
+        split.contributors.push(accrual.contributor)
+        split.shares.push(accrual.share)
+        splits.set(key, split)
+      })
 
-      this.eventCache.set(cacheKey, revenueEvents)
-      return revenueEvents
+      return revenue.map((event) => {
+        const split = splits.get(`${event.transactionHash}_${event.tokenId}`)
+
+        return {
+          id: `revenue_${event.blockNumber}_${event.logIndex}`,
+          tokenId: event.tokenId,
+          amount: Number.parseFloat(ethers.formatEther(event.amount)),
+          timestamp: event.timestamp,
+          transactionHash: event.transactionHash,
+          contributors: split?.contributors ?? [],
+          shares: split?.shares ?? [],
+        }
+      })
     } catch (error) {
       console.error("Error fetching revenue events:", error)
       return []
@@ -213,21 +549,41 @@ export class BillingManager {
   }
 
   /**
-   * Get mint events from contract logs
+   * Get mint events from contract logs. The cost is the RevenueDistributed amount
+   * emitted in the same transaction; a mint without one was free and costs 0.
    */
-  private async getMintEvents(fromBlock = 0) {
+  private async getMintEvents(fromBlock = 0): Promise<MintEvent[]> {
     try {
-      const filter = this.contract.filters.DATMinted()
-      const events = await this.contract.queryFilter(filter, fromBlock)
-
-      return events.map((event) => ({
-        userAddress: event.args?.user || "",
-        tokenId: event.args?.tokenId?.toString() || "",
-        tierId: event.args?.tierId?.toNumber() || 0,
-        timestamp: Date.now() / 1000,
-        transactionHash: event.transactionHash,
-        cost: 0.1, // Simplified - should calculate from tier
-      }))
+      // Tiers are always read from genesis since they may predate fromBlock
+      const [{ mints }, allEvents, revenueEvents] = await Promise.all([
+        this.getEvents(fromBlock),
+        this.getEvents(0),
+        this.getRevenueEvents(fromBlock),
+      ])
+
+      const tierNames = new Map(allEvents.tiers.map((tier) => [tier.tierId, tier.name]))
+      // Duration as it was when each token was minted
+      const termsAt = tierTermsLookup(allEvents)
+
+      const paidAmounts = new Map<string, number>()
+      revenueEvents.forEach((event) => {
+        paidAmounts.set(`${event.transactionHash}_${event.tokenId}`, event.amount)
+      })
+
+      return mints.map((event) => {
+        const terms = termsAt(event.tierId, event)
+
+        return {
+          userAddress: event.user,
+          tokenId: event.tokenId,
+          tierId: event.tierId,
+          tierName: tierNames.get(event.tierId) ?? `Tier ${event.tierId}`,
+          timestamp: event.timestamp,
+          expiryDate: event.timestamp + (terms?.duration ?? 0),
+          transactionHash: event.transactionHash,
+          cost: paidAmounts.get(`${event.transactionHash}_${event.tokenId}`) ?? 0,
+        }
+      })
     } catch (error) {
       console.error("Error fetching mint events:", error)
       return []
@@ -239,7 +595,7 @@ export class BillingManager {
     return allEvents.filter((event) => event.userAddress.toLowerCase() === userAddress.toLowerCase())
   }
 
-  private async getUserMintEvents(userAddress: string) {
+  private async getUserMintEvents(userAddress: string): Promise<MintEvent[]> {
     const allEvents = await this.getMintEvents()
     return allEvents.filter((event) => event.userAddress.toLowerCase() === userAddress.toLowerCase())
   }
@@ -250,7 +606,7 @@ export class BillingManager {
     return mintEvents.length
   }
 
-  private generateDailyStats(usageEvents: UsageEvent[], revenueEvents: RevenueEvent[], mintEvents: any[]) {
+  private generateDailyStats(usageEvents: UsageEvent[], revenueEvents: RevenueEvent[], mintEvents: MintEvent[]) {
     const dailyMap = new Map<string, { revenue: number; usage: number; newSubscriptions: number }>()
 
     // Process events by day
@@ -269,8 +625,8 @@ export class BillingManager {
         } else if (type === "usage") {
           dayStats.usage += event.usageAmount
         } else if (type === "mint") {
+          // A paid mint's cost is already counted by its RevenueDistributed event
           dayStats.newSubscriptions += 1
-          dayStats.revenue += event.cost
         }
       })
     }
@@ -1,20 +1,334 @@
+import { ethers } from "ethers"
+import type { AccessLevel } from "./model-backends"
+
 // Contract addresses and ABIs
 export const DAT_CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_DAT_CONTRACT_ADDRESS || ""
 
 export const DAT_ABI = [
-  "function createSubscriptionTier(string name, uint256 duration, uint256 price, uint256 usageQuota, address[] contributors, uint256[] revenueShares)",
+  "function createSubscriptionTier(string name, uint256 duration, uint256 price, uint256 usageQuota, address[] contributors, uint256[] revenueShares, tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels) capabilities)",
+  "function setTierCapabilities(uint256 tierId, tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels) capabilities)",
+  "function getTierCapabilities(uint256 tierId) view returns (tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels))",
+  "function updateSubscriptionTier(uint256 tierId, uint256 duration, uint256 price, uint256 usageQuota)",
+  "function setTierActive(uint256 tierId, bool active)",
+  "function setTierUnitPrice(uint256 tierId, uint256 unitPrice)",
+  "function tierUnitPrice(uint256) view returns (uint256)",
+  "function setTierSoulbound(uint256 tierId, bool soulbound)",
+  "function tierSoulbound(uint256) view returns (bool)",
+  "function owner() view returns (address)",
   "function mintDAT(uint256 tierId) payable",
+  "function renew(uint256 tokenId) payable",
+  "function topUp(uint256 tokenId, uint256 units) payable",
+  "function quoteUpgrade(uint256 tokenId, uint256 newTierId) view returns (uint256 credit, uint256 cost, uint256 carriedUsage)",
+  "function upgradeTier(uint256 tokenId, uint256 newTierId) payable",
+  "function tokenMetadata(uint256) view returns (uint256, uint256, uint256)",
   "function hasValidSubscription(address user) view returns (bool, uint256)",
   "function consumeUsage(address user, uint256 amount)",
-  "function getUserSubscription(address user) view returns (bool, uint256, uint256, uint256, string)",
-  "function subscriptionTiers(uint256) view returns (string, uint256, uint256, uint256, bool)",
+  "function consumeUsageBatch(address[] users, uint256[] amounts)",
+  "function consumeTokenUsageBatch(address[] users, uint256[] tokenIds, uint256[] amounts)",
+  "function getUserSubscription(address user) view returns (bool, uint256, uint256, uint256, string, tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels))",
+  "function getUserSubscriptions(address user) view returns (tuple(uint256 tokenId, uint256 tierId, bool isValid, uint256 expiryTime, uint256 remainingUsage, string tierName, tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels) capabilities)[])",
+  "function setDelegate(uint256 tokenId, address delegate, uint256 quotaCap, uint256 expiry)",
+  "function getDelegates(uint256 tokenId) view returns (address[] delegates, tuple(address grantor, uint256 quotaCap, uint256 used, uint256 expiry)[] grants)",
+  "function getDelegatedAccess(address delegate) view returns (tuple(uint256 tokenId, address owner, uint256 remainingUsage, uint256 quotaCap, uint256 used, uint256 expiry, string tierName, tuple(uint8 accessLevel, uint256 maxQueryLength, uint256 dailyCap, bool streamingAllowed, string[] allowedModels) capabilities)[])",
+  "function consumeDelegatedUsageBatch(address[] delegates, uint256[] tokenIds, uint256[] amounts)",
+  "function subscriptionTiers(uint256) view returns (string, uint256, uint256, uint256, bool, uint8, uint256, uint256, bool)",
   "function tierCount() view returns (uint256)",
+  "function anchorBatch(bytes32 root, uint256 count)",
+  "function anchoredBatches(bytes32) view returns (uint256, uint256, uint256)",
+  "function batchCount() view returns (uint256)",
+  "function getTierContributors(uint256 tierId) view returns (address[], uint256[])",
+  "function pendingRevenue(address) view returns (uint256)",
+  "function claimedRevenue(address) view returns (uint256)",
+  "function claimRevenue()",
+  "event SubscriptionTierCreated(uint256 indexed tierId, string name, uint256 price, uint256 duration)",
+  "event SubscriptionTierUpdated(uint256 indexed tierId, uint256 price, uint256 usageQuota, uint256 duration)",
+  "event SubscriptionTierActiveChanged(uint256 indexed tierId, bool active)",
+  "event TierCapabilitiesUpdated(uint256 indexed tierId, uint8 accessLevel)",
+  "event TierUnitPriceUpdated(uint256 indexed tierId, uint256 unitPrice)",
+  "event TierSoulboundChanged(uint256 indexed tierId, bool soulbound)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event SubscriptionRenewed(address indexed user, uint256 indexed tokenId, uint256 expiryTime, uint256 amount)",
+  "event UsageToppedUp(address indexed user, uint256 indexed tokenId, uint256 units, uint256 amount)",
+  "event SubscriptionUpgraded(address indexed user, uint256 indexed tokenId, uint256 fromTierId, uint256 toTierId, uint256 credit, uint256 amount)",
+  "event DelegateSet(uint256 indexed tokenId, address indexed owner, address indexed delegate, uint256 quotaCap, uint256 expiry)",
+  "event DelegatedUsageConsumed(uint256 indexed tokenId, address indexed delegate, uint256 amount)",
   "event DATMinted(address indexed user, uint256 indexed tokenId, uint256 tierId)",
   "event UsageConsumed(address indexed user, uint256 indexed tokenId, uint256 amount)",
+  "event RevenueDistributed(uint256 indexed tokenId, uint256 amount)",
+  "event RevenueAccrued(address indexed contributor, uint256 indexed tokenId, uint256 share, uint256 amount)",
+  "event RevenueClaimed(address indexed contributor, uint256 amount)",
+  "event BatchAnchored(uint256 indexed batchId, bytes32 indexed root, uint256 count)",
+  "event UsageBatchSettled(uint256 count)",
 ] as const
 
-export const SUBSCRIPTION_TIERS = {
-  TRIAL: { id: 1, name: "7-Day Trial", duration: 7 * 24 * 60 * 60, price: "0.01", quota: 50 },
-  MONTHLY: { id: 2, name: "Monthly Access", duration: 30 * 24 * 60 * 60, price: "0.1", quota: 1000 },
-  LIFETIME: { id: 3, name: "Lifetime Access", duration: 365 * 24 * 60 * 60 * 10, price: "1.0", quota: 999999 },
+// Indexed by the contract's uint8 access level
+export const ACCESS_LEVELS: readonly AccessLevel[] = ["basic", "premium", "enterprise"]
+
+export interface TierCapabilities {
+  accessLevel: AccessLevel
+  // characters per query
+  maxQueryLength: number
+  // queries per day, 0 for no cap
+  dailyCap: number
+  streamingAllowed: boolean
+  // model ids the agent may serve, empty for any
+  allowedModels: string[]
+}
+
+/**
+ * Decode a TierCapabilities tuple as returned by the contract
+ */
+export function decodeTierCapabilities(raw: ethers.Result | any[]): TierCapabilities {
+  const [accessLevel, maxQueryLength, dailyCap, streamingAllowed, allowedModels] = raw
+  const level = ACCESS_LEVELS[Number(accessLevel)]
+  if (!level) {
+    throw new TypeError(`Unknown access level ${accessLevel}`)
+  }
+
+  return {
+    accessLevel: level,
+    maxQueryLength: Number(maxQueryLength),
+    dailyCap: Number(dailyCap),
+    streamingAllowed: Boolean(streamingAllowed),
+    allowedModels: Array.from(allowedModels as string[]),
+  }
+}
+
+/**
+ * Contract argument for createSubscriptionTier / setTierCapabilities
+ */
+export function encodeTierCapabilities(capabilities: TierCapabilities) {
+  return {
+    accessLevel: ACCESS_LEVELS.indexOf(capabilities.accessLevel),
+    maxQueryLength: capabilities.maxQueryLength,
+    dailyCap: capabilities.dailyCap,
+    streamingAllowed: capabilities.streamingAllowed,
+    allowedModels: capabilities.allowedModels,
+  }
+}
+
+export interface SubscriptionToken {
+  tokenId: string
+  tierId: number
+  tierName: string
+  // unexpired with usage left
+  isValid: boolean
+  expiryTime: number
+  remainingUsage: number
+  capabilities: TierCapabilities
+}
+
+/**
+ * Decode getUserSubscriptions into drain order: valid tokens soonest-expiring first, then the rest
+ */
+export function decodeSubscriptionTokens(raw: ethers.Result | any[]): SubscriptionToken[] {
+  const tokens = Array.from(raw).map(
+    ([tokenId, tierId, isValid, expiryTime, remainingUsage, tierName, capabilities]): SubscriptionToken => ({
+      tokenId: tokenId.toString(),
+      tierId: Number(tierId),
+      tierName,
+      isValid: Boolean(isValid),
+      expiryTime: Number(expiryTime),
+      remainingUsage: Number(remainingUsage),
+      capabilities: decodeTierCapabilities(capabilities),
+    }),
+  )
+
+  return tokens.sort((a, b) => Number(b.isValid) - Number(a.isValid) || a.expiryTime - b.expiryTime)
+}
+
+export interface DelegatedAccess {
+  tokenId: string
+  // holder whose token is charged
+  owner: string
+  // usage the delegate can still draw, within both the cap and the token's quota
+  remainingUsage: number
+  quotaCap: number
+  used: number
+  // earlier of the delegation and token expiry
+  expiry: number
+  tierName: string
+  capabilities: TierCapabilities
+}
+
+/**
+ * Decode getDelegatedAccess, most remaining usage first
+ */
+export function decodeDelegatedAccess(raw: ethers.Result | any[]): DelegatedAccess[] {
+  const grants = Array.from(raw).map(
+    ([tokenId, owner, remainingUsage, quotaCap, used, expiry, tierName, capabilities]): DelegatedAccess => ({
+      tokenId: tokenId.toString(),
+      owner,
+      remainingUsage: Number(remainingUsage),
+      quotaCap: Number(quotaCap),
+      used: Number(used),
+      expiry: Number(expiry),
+      tierName,
+      capabilities: decodeTierCapabilities(capabilities),
+    }),
+  )
+
+  return grants.sort((a, b) => b.remainingUsage - a.remainingUsage)
+}
+
+export interface TokenDelegate {
+  delegate: string
+  quotaCap: number
+  used: number
+  expiry: number
+  // granted by the current holder, unexpired and under its cap
+  active: boolean
+}
+
+/**
+ * Read every delegate ever granted on a token, marking grants from a previous holder as inactive
+ */
+export async function fetchTokenDelegates(
+  runner: ethers.ContractRunner,
+  tokenId: string,
+  holder: string,
+): Promise<TokenDelegate[]> {
+  const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, runner)
+  const [delegates, grants] = await contract.getDelegates(tokenId)
+  const now = Math.floor(Date.now() / 1000)
+
+  return Array.from(delegates as string[]).map((delegate, index) => {
+    const [grantor, quotaCap, used, expiry] = grants[index]
+    const ownGrant = grantor.toLowerCase() === holder.toLowerCase()
+    return {
+      delegate,
+      quotaCap: ownGrant ? Number(quotaCap) : 0,
+      used: ownGrant ? Number(used) : 0,
+      expiry: ownGrant ? Number(expiry) : 0,
+      active: ownGrant && Number(expiry) > now && used < quotaCap,
+    }
+  })
+}
+
+export interface ContributorTier {
+  tierId: number
+  // percentage of every payment on the tier
+  share: number
+}
+
+/**
+ * Tiers listing an address among their contributors, read via getTierContributors whether or not they have paid mints
+ */
+export async function fetchContributorTiers(
+  runner: ethers.ContractRunner,
+  contributor: string,
+): Promise<ContributorTier[]> {
+  const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, runner)
+  const count = Number(await contract.tierCount())
+
+  const tiers = await Promise.all(
+    Array.from({ length: count }, async (_, index): Promise<ContributorTier | null> => {
+      const tierId = index + 1
+      const [contributors, shares] = await contract.getTierContributors(tierId)
+      const positions = Array.from(contributors as string[])
+        .map((address, position) => (address.toLowerCase() === contributor.toLowerCase() ? position : -1))
+        .filter((position) => position !== -1)
+      if (positions.length === 0) return null
+      return { tierId, share: positions.reduce((sum, position) => sum + Number(shares[position]), 0) }
+    }),
+  )
+
+  return tiers.filter((tier): tier is ContributorTier => tier !== null)
+}
+
+export interface SubscriptionTierInfo {
+  id: number
+  name: string
+  duration: number
+  // TON, as a decimal string
+  price: string
+  quota: number
+  active: boolean
+  // TON per top-up unit, "0" when top-ups are disabled
+  unitPrice: string
+  // tokens cannot be transferred after mint
+  soulbound: boolean
+  capabilities: TierCapabilities
+}
+
+export interface UpgradeQuote {
+  tier: SubscriptionTierInfo
+  // TON credited for the unused part of the current tier
+  credit: string
+  // TON due on top of the credit
+  cost: string
+  // remaining usage kept on the token, beyond what the credit pays for
+  carriedUsage: number
+  // wei to send with upgradeTier: the cost plus slack for the credit shrinking before it is mined,
+  // refunded by the contract
+  value: bigint
+}
+
+// How long an upgrade transaction may wait to be mined before its quote no longer covers the cost
+const UPGRADE_SLACK_SECONDS = BigInt(15 * 60)
+
+/**
+ * Read every tier from the contract via tierCount() and subscriptionTiers()
+ */
+export async function fetchSubscriptionTiers(runner: ethers.ContractRunner): Promise<SubscriptionTierInfo[]> {
+  const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, runner)
+  const count = Number(await contract.tierCount())
+
+  return Promise.all(
+    Array.from({ length: count }, async (_, index) => {
+      const id = index + 1
+      const [[name, duration, price, usageQuota, active], unitPrice, soulbound, capabilities] = await Promise.all([
+        contract.subscriptionTiers(id),
+        contract.tierUnitPrice(id),
+        contract.tierSoulbound(id),
+        contract.getTierCapabilities(id),
+      ])
+      return {
+        id,
+        name,
+        duration: Number(duration),
+        price: ethers.formatEther(price),
+        quota: Number(usageQuota),
+        active,
+        unitPrice: ethers.formatEther(unitPrice),
+        soulbound,
+        capabilities: decodeTierCapabilities(capabilities),
+      }
+    }),
+  )
+}
+
+/**
+ * Pro-rated quotes for moving a token to each active tier priced above its current one. The sent value
+ * covers the credit lost to UPGRADE_SLACK_SECONDS of elapsed time, or 1% of the new price if more,
+ * never exceeding the new price.
+ */
+export async function fetchUpgradeQuotes(
+  runner: ethers.ContractRunner,
+  tokenId: string,
+  currentTier: SubscriptionTierInfo,
+  tiers: SubscriptionTierInfo[],
+): Promise<UpgradeQuote[]> {
+  const contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, runner)
+  const currentPrice = ethers.parseEther(currentTier.price)
+  const targets = tiers.filter((tier) => tier.active && ethers.parseEther(tier.price) > currentPrice)
+
+  return Promise.all(
+    targets.map(async (tier) => {
+      const [credit, cost, carriedUsage] = await contract.quoteUpgrade(tokenId, tier.id)
+      const newPrice = ethers.parseEther(tier.price)
+      const timeDecay =
+        currentTier.duration > 0 ? (currentPrice * UPGRADE_SLACK_SECONDS) / BigInt(currentTier.duration) : BigInt(0)
+      const minimumSlack = newPrice / BigInt(100)
+      const slack = timeDecay > minimumSlack ? timeDecay : minimumSlack
+      return {
+        tier,
+        credit: ethers.formatEther(credit),
+        cost: ethers.formatEther(cost),
+        carriedUsage: Number(carriedUsage),
+        value: cost + slack < newPrice ? cost + slack : newPrice,
+      }
+    }),
+  )
 }
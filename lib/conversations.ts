@@ -0,0 +1,146 @@
+import type { AccessLevel, ModelMessage } from "./model-backends"
+import { defaultTokenizer } from "./tokenizer"
+
+export interface ConversationMessage extends ModelMessage {
+  timestamp: number
+}
+
+export interface ConversationSession {
+  id: string
+  ownerAddress: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messages: ConversationMessage[]
+}
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messageCount: number
+}
+
+// Approximate token budget of prior turns fed back to the model
+export const CONTEXT_BUDGET: Record<AccessLevel, number> = {
+  basic: 1000,
+  premium: 4000,
+  enterprise: 16000,
+}
+
+const MAX_SESSIONS_PER_OWNER = 50
+
+/**
+ * Per-session message history, bound to the wallet address that started the session
+ */
+export class ConversationStore {
+  private sessions: Map<string, ConversationSession> = new Map()
+
+  /**
+   * Whether `ownerAddress` may use `sessionId`; unknown sessions are free to claim
+   */
+  canAccess(sessionId: string, ownerAddress: string): boolean {
+    const session = this.sessions.get(sessionId)
+    return !session || session.ownerAddress === ownerAddress.toLowerCase()
+  }
+
+  getSession(sessionId: string, ownerAddress: string): ConversationSession | null {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.ownerAddress !== ownerAddress.toLowerCase()) {
+      return null
+    }
+    return { ...session, messages: [...session.messages] }
+  }
+
+  listSessions(ownerAddress: string): ConversationSummary[] {
+    const owner = ownerAddress.toLowerCase()
+
+    return Array.from(this.sessions.values())
+      .filter((session) => session.ownerAddress === owner)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((session) => ({
+        id: session.id,
+        title: session.title,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+      }))
+  }
+
+  /**
+   * Record a completed user/assistant exchange, creating the session on first use
+   */
+  appendTurn(sessionId: string, ownerAddress: string, query: string, response: string): boolean {
+    if (!this.canAccess(sessionId, ownerAddress)) {
+      return false
+    }
+
+    const now = Date.now()
+    let session = this.sessions.get(sessionId)
+
+    if (!session) {
+      session = {
+        id: sessionId,
+        ownerAddress: ownerAddress.toLowerCase(),
+        title: query.length > 60 ? `${query.slice(0, 57)}...` : query,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+      }
+      this.sessions.set(sessionId, session)
+      this.pruneOwnerSessions(session.ownerAddress)
+    }
+
+    session.messages.push({ role: "user", content: query, timestamp: now })
+    session.messages.push({ role: "assistant", content: response, timestamp: now })
+    session.updatedAt = now
+
+    return true
+  }
+
+  deleteSession(sessionId: string, ownerAddress: string): boolean {
+    if (!this.getSession(sessionId, ownerAddress)) {
+      return false
+    }
+    return this.sessions.delete(sessionId)
+  }
+
+  /**
+   * Most recent messages of a session that fit within the tier's context budget
+   */
+  getContextWindow(sessionId: string, ownerAddress: string, accessLevel: AccessLevel): ModelMessage[] {
+    const session = this.getSession(sessionId, ownerAddress)
+    if (!session) {
+      return []
+    }
+
+    const budget = CONTEXT_BUDGET[accessLevel]
+    const window: ModelMessage[] = []
+    let used = 0
+
+    for (let i = session.messages.length - 1; i >= 0; i--) {
+      const message = session.messages[i]
+      const cost = defaultTokenizer.count(message.content)
+      if (used + cost > budget) break
+
+      used += cost
+      window.unshift({ role: message.role, content: message.content })
+    }
+
+    // Never start the window on a dangling assistant reply
+    if (window[0]?.role === "assistant") {
+      window.shift()
+    }
+
+    return window
+  }
+
+  private pruneOwnerSessions(ownerAddress: string) {
+    const owned = this.listSessions(ownerAddress)
+    owned.slice(MAX_SESSIONS_PER_OWNER).forEach((session) => this.sessions.delete(session.id))
+  }
+}
+
+// Shared store so history survives AIAgent re-instantiation
+export const conversationStore = new ConversationStore()
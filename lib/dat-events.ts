@@ -0,0 +1,326 @@
+import { ethers } from "ethers"
+import { DAT_CONTRACT_ADDRESS, DAT_ABI } from "./contracts"
+
+interface IndexedLog {
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  timestamp: number
+}
+
+export interface IndexedMint extends IndexedLog {
+  user: string
+  tokenId: string
+  tierId: number
+}
+
+export interface IndexedUsage extends IndexedLog {
+  user: string
+  tokenId: string
+  amount: number
+}
+
+export interface IndexedRenewal extends IndexedLog {
+  user: string
+  tokenId: string
+  expiryTime: number
+  // wei, as a decimal string
+  amount: string
+}
+
+export interface IndexedTopUp extends IndexedLog {
+  user: string
+  tokenId: string
+  units: number
+  // wei, as a decimal string
+  amount: string
+}
+
+export interface IndexedUpgrade extends IndexedLog {
+  user: string
+  tokenId: string
+  fromTierId: number
+  toTierId: number
+  // wei, as decimal strings
+  credit: string
+  amount: string
+}
+
+export interface IndexedTransfer extends IndexedLog {
+  // Position within a TransferBatch, 0 for TransferSingle
+  batchIndex: number
+  operator: string
+  // zero address for mints
+  from: string
+  to: string
+  tokenId: string
+  value: number
+}
+
+export interface IndexedRevenue extends IndexedLog {
+  tokenId: string
+  // wei, as a decimal string
+  amount: string
+}
+
+export interface IndexedAccrual extends IndexedLog {
+  contributor: string
+  tokenId: string
+  // percentage of the payment
+  share: number
+  // wei, as a decimal string
+  amount: string
+}
+
+export interface IndexedClaim extends IndexedLog {
+  contributor: string
+  // wei, as a decimal string
+  amount: string
+}
+
+export interface IndexedTier extends IndexedLog {
+  tierId: number
+  name: string
+  // wei, as a decimal string
+  price: string
+  duration: number
+}
+
+// An admin edit to a tier; applies to mints, renewals and upgrades after it
+export interface IndexedTierUpdate extends IndexedLog {
+  tierId: number
+  // wei, as a decimal string
+  price: string
+  usageQuota: number
+  duration: number
+}
+
+export interface IndexedEvents {
+  mints: IndexedMint[]
+  usage: IndexedUsage[]
+  renewals: IndexedRenewal[]
+  topUps: IndexedTopUp[]
+  upgrades: IndexedUpgrade[]
+  transfers: IndexedTransfer[]
+  revenue: IndexedRevenue[]
+  accruals: IndexedAccrual[]
+  claims: IndexedClaim[]
+  tiers: IndexedTier[]
+  tierUpdates: IndexedTierUpdate[]
+  // Highest block covered by this result
+  lastBlock: number
+}
+
+/**
+ * Where BillingManager reads DataAnchoringToken events from
+ */
+export interface BillingEventSource {
+  getEvents(fromBlock?: number): Promise<IndexedEvents>
+}
+
+/**
+ * Reads events straight from the RPC with queryFilter, resolving block timestamps once per block
+ */
+export class RpcEventSource implements BillingEventSource {
+  private contract: ethers.Contract
+  // Keyed by block hash so a block replaced by a reorg is fetched again
+  private blockTimestamps: Map<string, number> = new Map()
+
+  constructor(private provider: ethers.Provider) {
+    this.contract = new ethers.Contract(DAT_CONTRACT_ADDRESS, DAT_ABI, provider)
+  }
+
+  async getEvents(fromBlock = 0, toBlock?: number): Promise<IndexedEvents> {
+    const lastBlock = toBlock ?? (await this.provider.getBlockNumber())
+
+    const [
+      mintLogs,
+      usageLogs,
+      renewalLogs,
+      topUpLogs,
+      upgradeLogs,
+      singleTransferLogs,
+      batchTransferLogs,
+      revenueLogs,
+      accrualLogs,
+      claimLogs,
+      tierLogs,
+      tierUpdateLogs,
+    ] = await Promise.all([
+        this.queryLogs("DATMinted", fromBlock, lastBlock),
+        this.queryLogs("UsageConsumed", fromBlock, lastBlock),
+        this.queryLogs("SubscriptionRenewed", fromBlock, lastBlock),
+        this.queryLogs("UsageToppedUp", fromBlock, lastBlock),
+        this.queryLogs("SubscriptionUpgraded", fromBlock, lastBlock),
+        this.queryLogs("TransferSingle", fromBlock, lastBlock),
+        this.queryLogs("TransferBatch", fromBlock, lastBlock),
+        this.queryLogs("RevenueDistributed", fromBlock, lastBlock),
+        this.queryLogs("RevenueAccrued", fromBlock, lastBlock),
+        this.queryLogs("RevenueClaimed", fromBlock, lastBlock),
+        this.queryLogs("SubscriptionTierCreated", fromBlock, lastBlock),
+        this.queryLogs("SubscriptionTierUpdated", fromBlock, lastBlock),
+      ])
+
+    const timestamps = await this.getBlockTimestamps([
+      ...mintLogs,
+      ...usageLogs,
+      ...renewalLogs,
+      ...topUpLogs,
+      ...upgradeLogs,
+      ...singleTransferLogs,
+      ...batchTransferLogs,
+      ...revenueLogs,
+      ...accrualLogs,
+      ...claimLogs,
+      ...tierLogs,
+      ...tierUpdateLogs,
+    ])
+    const base = (log: ethers.EventLog) => ({
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: timestamps.get(log.blockHash)!,
+    })
+
+    return {
+      mints: mintLogs.map((log) => ({
+        ...base(log),
+        user: log.args.user,
+        tokenId: log.args.tokenId.toString(),
+        tierId: Number(log.args.tierId),
+      })),
+      usage: usageLogs.map((log) => ({
+        ...base(log),
+        user: log.args.user,
+        tokenId: log.args.tokenId.toString(),
+        amount: Number(log.args.amount),
+      })),
+      renewals: renewalLogs.map((log) => ({
+        ...base(log),
+        user: log.args.user,
+        tokenId: log.args.tokenId.toString(),
+        expiryTime: Number(log.args.expiryTime),
+        amount: log.args.amount.toString(),
+      })),
+      topUps: topUpLogs.map((log) => ({
+        ...base(log),
+        user: log.args.user,
+        tokenId: log.args.tokenId.toString(),
+        units: Number(log.args.units),
+        amount: log.args.amount.toString(),
+      })),
+      upgrades: upgradeLogs.map((log) => ({
+        ...base(log),
+        user: log.args.user,
+        tokenId: log.args.tokenId.toString(),
+        fromTierId: Number(log.args.fromTierId),
+        toTierId: Number(log.args.toTierId),
+        credit: log.args.credit.toString(),
+        amount: log.args.amount.toString(),
+      })),
+      transfers: [
+        ...singleTransferLogs.map((log) => ({
+          ...base(log),
+          batchIndex: 0,
+          operator: log.args.operator,
+          from: log.args.from,
+          to: log.args.to,
+          tokenId: log.args.id.toString(),
+          value: Number(log.args.value),
+        })),
+        // `values` collides with Array.prototype.values on the args Result, so read positionally
+        ...batchTransferLogs.flatMap((log) => {
+          const [operator, from, to, ids, values] = log.args
+          return Array.from(ids as bigint[]).map((id, batchIndex) => ({
+            ...base(log),
+            batchIndex,
+            operator,
+            from,
+            to,
+            tokenId: id.toString(),
+            value: Number(values[batchIndex]),
+          }))
+        }),
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex || a.batchIndex - b.batchIndex),
+      revenue: revenueLogs.map((log) => ({
+        ...base(log),
+        tokenId: log.args.tokenId.toString(),
+        amount: log.args.amount.toString(),
+      })),
+      accruals: accrualLogs.map((log) => ({
+        ...base(log),
+        contributor: log.args.contributor,
+        tokenId: log.args.tokenId.toString(),
+        share: Number(log.args.share),
+        amount: log.args.amount.toString(),
+      })),
+      claims: claimLogs.map((log) => ({
+        ...base(log),
+        contributor: log.args.contributor,
+        amount: log.args.amount.toString(),
+      })),
+      tiers: tierLogs.map((log) => ({
+        ...base(log),
+        tierId: Number(log.args.tierId),
+        name: log.args.name,
+        price: log.args.price.toString(),
+        duration: Number(log.args.duration),
+      })),
+      tierUpdates: tierUpdateLogs.map((log) => ({
+        ...base(log),
+        tierId: Number(log.args.tierId),
+        price: log.args.price.toString(),
+        usageQuota: Number(log.args.usageQuota),
+        duration: Number(log.args.duration),
+      })),
+      lastBlock,
+    }
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber)
+    return block?.hash ?? null
+  }
+
+  private async queryLogs(eventName: string, fromBlock: number, toBlock: number): Promise<ethers.EventLog[]> {
+    const logs = await this.contract.queryFilter(eventName, fromBlock, toBlock)
+    return logs.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+  }
+
+  /**
+   * Resolve block timestamps for a set of logs, fetching each block at most once
+   */
+  private async getBlockTimestamps(logs: Array<{ blockHash: string }>): Promise<Map<string, number>> {
+    const missing = Array.from(new Set(logs.map((log) => log.blockHash))).filter(
+      (blockHash) => !this.blockTimestamps.has(blockHash),
+    )
+
+    await Promise.all(
+      missing.map(async (blockHash) => {
+        const block = await this.provider.getBlock(blockHash)
+        if (!block) {
+          throw new Error(`Block ${blockHash} not found`)
+        }
+        this.blockTimestamps.set(blockHash, block.timestamp)
+      }),
+    )
+
+    return this.blockTimestamps
+  }
+}
+
+/**
+ * Reads indexed events from the /api/billing/events route
+ */
+export class ApiEventSource implements BillingEventSource {
+  constructor(private readonly baseUrl = "/api/billing/events") {}
+
+  async getEvents(fromBlock = 0): Promise<IndexedEvents> {
+    const res = await fetch(`${this.baseUrl}?fromBlock=${fromBlock}`)
+    const data = await res.json()
+    if (!res.ok) {
+      throw new Error(data.error || `Event index request failed (${res.status})`)
+    }
+    return data as IndexedEvents
+  }
+}
@@ -0,0 +1,487 @@
+import Database from "better-sqlite3"
+import { ethers } from "ethers"
+import fs from "fs"
+import path from "path"
+import {
+  RpcEventSource,
+  type BillingEventSource,
+  type IndexedAccrual,
+  type IndexedClaim,
+  type IndexedEvents,
+  type IndexedMint,
+  type IndexedRenewal,
+  type IndexedTopUp,
+  type IndexedUpgrade,
+  type IndexedTransfer,
+  type IndexedRevenue,
+  type IndexedTier,
+  type IndexedTierUpdate,
+  type IndexedUsage,
+} from "./dat-events"
+
+export interface EventIndexerOptions {
+  /** Blocks behind head that may still be reorganised and are left unindexed; deeper reorgs roll back as many */
+  confirmations?: number
+  /** Block to start from on an empty store, usually the contract deployment block */
+  startBlock?: number
+  /** Maximum block range per getLogs request */
+  batchSize?: number
+  pollIntervalMs?: number
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_block INTEGER NOT NULL,
+    last_block_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS mints (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL, token_id TEXT NOT NULL, tier_id INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS usage (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL, token_id TEXT NOT NULL, amount INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS renewals (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL, token_id TEXT NOT NULL, expiry_time INTEGER NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS top_ups (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL, token_id TEXT NOT NULL, units INTEGER NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS upgrades (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL, token_id TEXT NOT NULL, from_tier_id INTEGER NOT NULL, to_tier_id INTEGER NOT NULL,
+    credit TEXT NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS transfers (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    batch_index INTEGER NOT NULL, operator TEXT NOT NULL, from_address TEXT NOT NULL, to_address TEXT NOT NULL,
+    token_id TEXT NOT NULL, value INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index, batch_index)
+  );
+  CREATE TABLE IF NOT EXISTS revenue (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    token_id TEXT NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS accruals (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    contributor TEXT NOT NULL, token_id TEXT NOT NULL, share INTEGER NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS claims (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    contributor TEXT NOT NULL, amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS tiers (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    tier_id INTEGER NOT NULL, name TEXT NOT NULL, price TEXT NOT NULL, duration INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS tier_updates (
+    block_number INTEGER NOT NULL, tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+    tier_id INTEGER NOT NULL, price TEXT NOT NULL, usage_quota INTEGER NOT NULL, duration INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS mints_block ON mints (block_number);
+  CREATE INDEX IF NOT EXISTS usage_block ON usage (block_number);
+  CREATE INDEX IF NOT EXISTS renewals_block ON renewals (block_number);
+  CREATE INDEX IF NOT EXISTS top_ups_block ON top_ups (block_number);
+  CREATE INDEX IF NOT EXISTS upgrades_block ON upgrades (block_number);
+  CREATE INDEX IF NOT EXISTS transfers_block ON transfers (block_number);
+  CREATE INDEX IF NOT EXISTS revenue_block ON revenue (block_number);
+  CREATE INDEX IF NOT EXISTS accruals_block ON accruals (block_number);
+  CREATE INDEX IF NOT EXISTS claims_block ON claims (block_number);
+  CREATE INDEX IF NOT EXISTS tiers_block ON tiers (block_number);
+  CREATE INDEX IF NOT EXISTS tier_updates_block ON tier_updates (block_number);
+`
+
+// Rows as stored, one interface per event table
+interface LogRow {
+  block_number: number
+  tx_hash: string
+  log_index: number
+  timestamp: number
+}
+
+interface MintRow extends LogRow {
+  user: string
+  token_id: string
+  tier_id: number
+}
+
+interface UsageRow extends LogRow {
+  user: string
+  token_id: string
+  amount: number
+}
+
+interface RenewalRow extends LogRow {
+  user: string
+  token_id: string
+  expiry_time: number
+  amount: string
+}
+
+interface TopUpRow extends LogRow {
+  user: string
+  token_id: string
+  units: number
+  amount: string
+}
+
+interface UpgradeRow extends LogRow {
+  user: string
+  token_id: string
+  from_tier_id: number
+  to_tier_id: number
+  credit: string
+  amount: string
+}
+
+interface TransferRow extends LogRow {
+  batch_index: number
+  operator: string
+  from_address: string
+  to_address: string
+  token_id: string
+  value: number
+}
+
+interface RevenueRow extends LogRow {
+  token_id: string
+  amount: string
+}
+
+interface AccrualRow extends LogRow {
+  contributor: string
+  token_id: string
+  share: number
+  amount: string
+}
+
+interface ClaimRow extends LogRow {
+  contributor: string
+  amount: string
+}
+
+interface TierRow extends LogRow {
+  tier_id: number
+  name: string
+  price: string
+  duration: number
+}
+
+interface TierUpdateRow extends LogRow {
+  tier_id: number
+  price: string
+  usage_quota: number
+  duration: number
+}
+
+// Table name per IndexedEvents key
+const EVENT_TABLES = {
+  mints: "mints",
+  usage: "usage",
+  renewals: "renewals",
+  topUps: "top_ups",
+  upgrades: "upgrades",
+  transfers: "transfers",
+  revenue: "revenue",
+  accruals: "accruals",
+  claims: "claims",
+  tiers: "tiers",
+  tierUpdates: "tier_updates",
+} as const
+
+/**
+ * Tails DataAnchoringToken events into a local SQLite store, up to `confirmations` blocks
+ * behind head. Progress is checkpointed with the hash of the last indexed block; if that
+ * hash no longer matches the chain, the last `confirmations` blocks are rolled back and
+ * indexed again.
+ */
+export class EventIndexer implements BillingEventSource {
+  private db: Database.Database
+  private source: RpcEventSource
+  private readonly confirmations: number
+  private readonly startBlock: number
+  private readonly batchSize: number
+  private readonly pollIntervalMs: number
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private syncing: Promise<void> | null = null
+
+  constructor(
+    private provider: ethers.Provider,
+    dbPath: string,
+    options: EventIndexerOptions = {},
+  ) {
+    this.confirmations = options.confirmations ?? 12
+    this.startBlock = options.startBlock ?? 0
+    this.batchSize = options.batchSize ?? 2000
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000
+    this.source = new RpcEventSource(provider)
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    this.db = new Database(dbPath)
+    this.db.pragma("journal_mode = WAL")
+    this.db.exec(SCHEMA)
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    const poll = async () => {
+      try {
+        await this.sync()
+      } catch (error) {
+        console.error("[Indexer] Sync failed:", error)
+      }
+      this.pollTimer = setTimeout(poll, this.pollIntervalMs)
+    }
+
+    console.log(`[Indexer] Tailing DAT events from block ${this.getLastBlock() + 1}`)
+    this.pollTimer = setTimeout(poll, 0)
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  /**
+   * Index every confirmed block up to the current head
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) {
+      return this.syncing
+    }
+
+    this.syncing = this.catchUp()
+    try {
+      await this.syncing
+    } finally {
+      this.syncing = null
+    }
+  }
+
+  /**
+   * Last indexed block, or startBlock - 1 on an empty store
+   */
+  getLastBlock(): number {
+    const row = this.db.prepare("SELECT last_block FROM checkpoint WHERE id = 1").get() as
+      | { last_block: number }
+      | undefined
+    return row?.last_block ?? this.startBlock - 1
+  }
+
+  async getEvents(fromBlock = 0): Promise<IndexedEvents> {
+    const select = <Row extends LogRow>(table: string, orderBy = "block_number, log_index") =>
+      this.db.prepare(`SELECT * FROM ${table} WHERE block_number >= ? ORDER BY ${orderBy}`).all(fromBlock) as Row[]
+
+    const base = (row: LogRow) => ({
+      blockNumber: row.block_number,
+      transactionHash: row.tx_hash,
+      logIndex: row.log_index,
+      timestamp: row.timestamp,
+    })
+
+    return {
+      mints: select<MintRow>("mints").map((row): IndexedMint => ({
+        ...base(row),
+        user: row.user,
+        tokenId: row.token_id,
+        tierId: row.tier_id,
+      })),
+      usage: select<UsageRow>("usage").map((row): IndexedUsage => ({
+        ...base(row),
+        user: row.user,
+        tokenId: row.token_id,
+        amount: row.amount,
+      })),
+      renewals: select<RenewalRow>("renewals").map((row): IndexedRenewal => ({
+        ...base(row),
+        user: row.user,
+        tokenId: row.token_id,
+        expiryTime: row.expiry_time,
+        amount: row.amount,
+      })),
+      topUps: select<TopUpRow>("top_ups").map((row): IndexedTopUp => ({
+        ...base(row),
+        user: row.user,
+        tokenId: row.token_id,
+        units: row.units,
+        amount: row.amount,
+      })),
+      upgrades: select<UpgradeRow>("upgrades").map((row): IndexedUpgrade => ({
+        ...base(row),
+        user: row.user,
+        tokenId: row.token_id,
+        fromTierId: row.from_tier_id,
+        toTierId: row.to_tier_id,
+        credit: row.credit,
+        amount: row.amount,
+      })),
+      transfers: select<TransferRow>("transfers", "block_number, log_index, batch_index").map((row): IndexedTransfer => ({
+        ...base(row),
+        batchIndex: row.batch_index,
+        operator: row.operator,
+        from: row.from_address,
+        to: row.to_address,
+        tokenId: row.token_id,
+        value: row.value,
+      })),
+      revenue: select<RevenueRow>("revenue").map((row): IndexedRevenue => ({ ...base(row), tokenId: row.token_id, amount: row.amount })),
+      accruals: select<AccrualRow>("accruals").map((row): IndexedAccrual => ({
+        ...base(row),
+        contributor: row.contributor,
+        tokenId: row.token_id,
+        share: row.share,
+        amount: row.amount,
+      })),
+      claims: select<ClaimRow>("claims").map((row): IndexedClaim => ({ ...base(row), contributor: row.contributor, amount: row.amount })),
+      tiers: select<TierRow>("tiers").map((row): IndexedTier => ({
+        ...base(row),
+        tierId: row.tier_id,
+        name: row.name,
+        price: row.price,
+        duration: row.duration,
+      })),
+      tierUpdates: select<TierUpdateRow>("tier_updates").map((row): IndexedTierUpdate => ({
+        ...base(row),
+        tierId: row.tier_id,
+        price: row.price,
+        usageQuota: row.usage_quota,
+        duration: row.duration,
+      })),
+      lastBlock: this.getLastBlock(),
+    }
+  }
+
+  private async catchUp(): Promise<void> {
+    await this.detectReorg()
+
+    // Blocks within `confirmations` of head may still be replaced, so they wait for the next sync
+    const confirmed = (await this.provider.getBlockNumber()) - this.confirmations
+    let from = this.getLastBlock() + 1
+
+    while (from <= confirmed) {
+      const to = Math.min(from + this.batchSize - 1, confirmed)
+      const hash = await this.source.getBlockHash(to)
+      if (!hash) {
+        throw new Error(`Block ${to} not found`)
+      }
+
+      const events = await this.source.getEvents(from, to)
+      // A reorg between the two reads would checkpoint one fork's hash with another's events
+      if ((await this.source.getBlockHash(to)) !== hash) {
+        console.warn(`[Indexer] Block ${to} changed while indexing, retrying from ${from}`)
+        continue
+      }
+
+      this.store(events, hash)
+      from = to + 1
+    }
+  }
+
+  /**
+   * Roll back the unconfirmed tail when the checkpointed block was replaced by a reorg
+   */
+  private async detectReorg(): Promise<void> {
+    const checkpoint = this.db.prepare("SELECT last_block, last_block_hash FROM checkpoint WHERE id = 1").get() as
+      | { last_block: number; last_block_hash: string }
+      | undefined
+    if (!checkpoint) return
+
+    const hash = await this.source.getBlockHash(checkpoint.last_block)
+    if (hash === checkpoint.last_block_hash) return
+
+    const rollbackTo = Math.max(checkpoint.last_block - this.confirmations, this.startBlock - 1)
+    const rollbackHash = rollbackTo >= 0 ? await this.source.getBlockHash(rollbackTo) : null
+    console.warn(`[Indexer] Reorg detected at block ${checkpoint.last_block}, rolling back to ${rollbackTo}`)
+
+    this.db.transaction(() => {
+      for (const table of Object.values(EVENT_TABLES)) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(rollbackTo)
+      }
+      if (rollbackHash) {
+        this.db.prepare("UPDATE checkpoint SET last_block = ?, last_block_hash = ? WHERE id = 1").run(rollbackTo, rollbackHash)
+      } else {
+        this.db.prepare("DELETE FROM checkpoint WHERE id = 1").run()
+      }
+    })()
+  }
+
+  private store(events: IndexedEvents, lastBlockHash: string): void {
+    const insertMint = this.db.prepare(
+      "INSERT OR REPLACE INTO mints VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @user, @tokenId, @tierId)",
+    )
+    const insertUsage = this.db.prepare(
+      "INSERT OR REPLACE INTO usage VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @user, @tokenId, @amount)",
+    )
+    const insertRenewal = this.db.prepare(
+      "INSERT OR REPLACE INTO renewals VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @user, @tokenId, @expiryTime, @amount)",
+    )
+    const insertTopUp = this.db.prepare(
+      "INSERT OR REPLACE INTO top_ups VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @user, @tokenId, @units, @amount)",
+    )
+    const insertUpgrade = this.db.prepare(
+      "INSERT OR REPLACE INTO upgrades VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @user, @tokenId, @fromTierId, @toTierId, @credit, @amount)",
+    )
+    const insertTransfer = this.db.prepare(
+      "INSERT OR REPLACE INTO transfers VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @batchIndex, @operator, @from, @to, @tokenId, @value)",
+    )
+    const insertRevenue = this.db.prepare(
+      "INSERT OR REPLACE INTO revenue VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @tokenId, @amount)",
+    )
+    const insertAccrual = this.db.prepare(
+      "INSERT OR REPLACE INTO accruals VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @contributor, @tokenId, @share, @amount)",
+    )
+    const insertClaim = this.db.prepare(
+      "INSERT OR REPLACE INTO claims VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @contributor, @amount)",
+    )
+    const insertTier = this.db.prepare(
+      "INSERT OR REPLACE INTO tiers VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @tierId, @name, @price, @duration)",
+    )
+    const insertTierUpdate = this.db.prepare(
+      "INSERT OR REPLACE INTO tier_updates VALUES (@blockNumber, @transactionHash, @logIndex, @timestamp, @tierId, @price, @usageQuota, @duration)",
+    )
+    const saveCheckpoint = this.db.prepare(
+      "INSERT OR REPLACE INTO checkpoint (id, last_block, last_block_hash) VALUES (1, ?, ?)",
+    )
+
+    // Events and checkpoint commit together so a crash never skips or duplicates a range
+    this.db.transaction(() => {
+      events.mints.forEach((event) => insertMint.run(event))
+      events.usage.forEach((event) => insertUsage.run(event))
+      events.renewals.forEach((event) => insertRenewal.run(event))
+      events.topUps.forEach((event) => insertTopUp.run(event))
+      events.upgrades.forEach((event) => insertUpgrade.run(event))
+      events.transfers.forEach((event) => insertTransfer.run(event))
+      events.revenue.forEach((event) => insertRevenue.run(event))
+      events.accruals.forEach((event) => insertAccrual.run(event))
+      events.claims.forEach((event) => insertClaim.run(event))
+      events.tiers.forEach((event) => insertTier.run(event))
+      events.tierUpdates.forEach((event) => insertTierUpdate.run(event))
+      saveCheckpoint.run(events.lastBlock, lastBlockHash)
+    })()
+
+    const count = (Object.keys(EVENT_TABLES) as Array<keyof typeof EVENT_TABLES>).reduce(
+      (sum, key) => sum + events[key].length,
+      0,
+    )
+    if (count > 0) {
+      console.log(`[Indexer] Indexed ${count} events up to block ${events.lastBlock}`)
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { ethers } from "ethers"
+import path from "path"
+import { EventIndexer } from "./event-indexer"
+
+let serverIndexer: EventIndexer | null = null
+
+/**
+ * Process-wide event indexer backing the billing routes, or null when no RPC is configured
+ */
+export function getServerIndexer(): EventIndexer | null {
+  if (!serverIndexer) {
+    const rpcUrl = process.env.DAT_RPC_URL
+    if (!rpcUrl) return null
+
+    const dbPath = process.env.DAT_INDEXER_DB || path.join(process.cwd(), ".data", "dat-events.sqlite")
+    serverIndexer = new EventIndexer(new ethers.JsonRpcProvider(rpcUrl), dbPath, {
+      startBlock: Number(process.env.DAT_INDEXER_START_BLOCK || 0),
+      confirmations: Number(process.env.DAT_INDEXER_CONFIRMATIONS || 12),
+    })
+    serverIndexer.start()
+  }
+
+  return serverIndexer
+}
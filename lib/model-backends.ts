@@ -0,0 +1,349 @@
+export type AccessLevel = "basic" | "premium" | "enterprise"
+
+export interface ModelMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface ModelRequest {
+  query: string
+  accessLevel: AccessLevel
+  /** Prior turns of the conversation, oldest first */
+  history?: ModelMessage[]
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Token counts as reported by the model provider's own tokenizer
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface ModelResult {
+  content: string
+  confidence: number
+  modelId: string
+  /** Set when the backend reports it */
+  usage?: TokenUsage
+}
+
+export interface ModelStreamChunk {
+  delta: string
+  /** Set on the final chunk when the backend can report it */
+  confidence?: number
+  modelId?: string
+  usage?: TokenUsage
+}
+
+export interface ModelBackend {
+  readonly id: string
+  generate(request: ModelRequest): Promise<ModelResult>
+  /** Incremental generation; backends without it are streamed as a single chunk */
+  stream?(request: ModelRequest): AsyncIterable<ModelStreamChunk>
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+  temperature?: number
+}
+
+export interface LocalModelConfig {
+  baseUrl: string
+  model: string
+}
+
+const SYSTEM_PROMPT =
+  "You are an AI agent powered by DAT subscriptions. Answer questions about crypto, DeFi, NFTs and blockchain concisely and accurately."
+
+// Output limit per access level, unless a request sets its own
+export const DEFAULT_MAX_TOKENS: Record<AccessLevel, number> = {
+  basic: 256,
+  premium: 1024,
+  enterprise: 4096,
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trim()
+      }
+    }
+
+    if (buffer.trim()) yield buffer.trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Backend for any server exposing the OpenAI chat completions API
+ */
+export class OpenAICompatibleBackend implements ModelBackend {
+  readonly id: string
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.id = `openai:${config.model}`
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResult> {
+    const res = await this.request(request, false)
+    const data = await res.json()
+    const choice = data.choices?.[0]
+
+    return {
+      content: choice?.message?.content ?? "",
+      confidence: choice?.finish_reason === "stop" ? 0.9 : 0.6,
+      modelId: data.model ?? this.config.model,
+      usage: this.parseUsage(data.usage),
+    }
+  }
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelStreamChunk> {
+    const res = await this.request(request, true)
+    if (!res.body) throw new Error(`Model backend ${this.id} returned no body`)
+
+    for await (const line of readLines(res.body)) {
+      if (!line.startsWith("data:")) continue
+      const payload = line.slice(5).trim()
+      if (payload === "[DONE]") return
+
+      const data = JSON.parse(payload)
+      const choice = data.choices?.[0]
+      const finished = Boolean(choice?.finish_reason)
+
+      // With include_usage the last chunk before [DONE] carries usage and no choices
+      yield {
+        delta: choice?.delta?.content ?? "",
+        confidence: finished ? (choice.finish_reason === "stop" ? 0.9 : 0.6) : undefined,
+        modelId: data.model,
+        usage: this.parseUsage(data.usage),
+      }
+    }
+  }
+
+  private parseUsage(usage: any): TokenUsage | undefined {
+    if (typeof usage?.prompt_tokens !== "number" || typeof usage?.completion_tokens !== "number") {
+      return undefined
+    }
+    return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens }
+  }
+
+  private async request(request: ModelRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(`${this.config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          ...(request.history ?? []),
+          { role: "user", content: request.query },
+        ],
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS[request.accessLevel],
+        temperature: this.config.temperature ?? 0.7,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    })
+
+    if (!res.ok) {
+      throw new Error(`Model backend ${this.id} returned ${res.status}`)
+    }
+
+    return res
+  }
+}
+
+/**
+ * Backend for a local llama.cpp server or Ollama instance (/api/generate)
+ */
+export class LocalModelBackend implements ModelBackend {
+  readonly id: string
+
+  constructor(private config: LocalModelConfig) {
+    this.id = `local:${config.model}`
+  }
+
+  async generate(request: ModelRequest): Promise<ModelResult> {
+    const res = await this.request(request, false)
+    const data = await res.json()
+
+    return {
+      content: data.response ?? "",
+      confidence: data.done ? 0.8 : 0.5,
+      modelId: data.model ?? this.config.model,
+      usage: this.parseUsage(data),
+    }
+  }
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelStreamChunk> {
+    const res = await this.request(request, true)
+    if (!res.body) throw new Error(`Model backend ${this.id} returned no body`)
+
+    for await (const line of readLines(res.body)) {
+      const data = JSON.parse(line)
+      yield {
+        delta: data.response ?? "",
+        confidence: data.done ? 0.8 : undefined,
+        modelId: data.model,
+        usage: data.done ? this.parseUsage(data) : undefined,
+      }
+      if (data.done) return
+    }
+  }
+
+  /**
+   * Ollama reports prompt_eval_count / eval_count on the final response
+   */
+  private parseUsage(data: any): TokenUsage | undefined {
+    if (typeof data?.prompt_eval_count !== "number" || typeof data?.eval_count !== "number") {
+      return undefined
+    }
+    return { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count }
+  }
+
+  private async request(request: ModelRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(`${this.config.baseUrl.replace(/\/$/, "")}/api/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.config.model,
+        system: SYSTEM_PROMPT,
+        prompt: this.buildPrompt(request),
+        stream,
+        options: { num_predict: request.maxTokens ?? DEFAULT_MAX_TOKENS[request.accessLevel] },
+      }),
+      signal: request.signal,
+    })
+
+    if (!res.ok) {
+      throw new Error(`Model backend ${this.id} returned ${res.status}`)
+    }
+
+    return res
+  }
+
+  private buildPrompt(request: ModelRequest): string {
+    if (!request.history?.length) {
+      return request.query
+    }
+
+    const transcript = request.history
+      .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+      .join("\n\n")
+    return `${transcript}\n\nUser: ${request.query}\nAssistant:`
+  }
+}
+
+const FIXTURE_RESPONSES = {
+  defi: {
+    basic: "Current DeFi opportunities include staking TON (~4% APY) and providing liquidity on major DEXs.",
+    premium:
+      "Top DeFi yield strategies: 1) TON staking on Lido (4.2% APY), 2) Uniswap V3 concentrated liquidity (8-15% APY), 3) Aave lending (3-6% APY). Risk assessment: Medium to high depending on strategy.",
+    enterprise:
+      "Comprehensive DeFi analysis: 1) Liquid staking derivatives (Lido, Rocket Pool) offering 4-5% with high liquidity, 2) Concentrated liquidity positions on Uniswap V3 with dynamic rebalancing (potential 10-20% APY), 3) Yield farming on Curve with CRV rewards (6-12% APY), 4) Leveraged strategies using Aave/Compound (15-30% APY, high risk). Include impermanent loss calculations and gas optimization strategies.",
+  },
+  nft: {
+    basic: "NFT market shows mixed trends with blue-chip collections maintaining value.",
+    premium:
+      "NFT market analysis: Blue-chip collections (BAYC, CryptoPunks) showing 15% decline but strong floor support. Utility NFTs and gaming assets gaining traction. AI-generated art emerging as new category.",
+    enterprise:
+      "Detailed NFT market intelligence: 1) Blue-chip analysis with floor price predictions, 2) Emerging categories (AI art, utility tokens, gaming assets), 3) Market sentiment indicators, 4) Liquidity analysis across marketplaces, 5) Upcoming drops and mint strategies with ROI projections.",
+  },
+  default: {
+    basic: "I'm an AI agent powered by DAT subscriptions. I can help with basic crypto and blockchain questions.",
+    premium:
+      "I'm an advanced AI agent with access to real-time market data, DeFi protocols, and NFT analytics. I can provide detailed investment strategies and risk assessments.",
+    enterprise:
+      "I'm an enterprise-grade AI agent with comprehensive blockchain intelligence, advanced analytics, and institutional-level insights. I provide detailed market analysis, risk modeling, and strategic recommendations.",
+  },
+}
+
+/**
+ * Deterministic keyword-matched responses, used for tests and when no model is configured
+ */
+export class FixtureBackend implements ModelBackend {
+  readonly id = "fixture"
+
+  async generate(request: ModelRequest): Promise<ModelResult> {
+    const lowerQuery = request.query.toLowerCase()
+
+    let category: keyof typeof FIXTURE_RESPONSES = "default"
+    let confidence = 0.7
+
+    if (lowerQuery.includes("defi") || lowerQuery.includes("yield")) {
+      category = "defi"
+      confidence = 0.9
+    } else if (lowerQuery.includes("nft")) {
+      category = "nft"
+      confidence = 0.85
+    }
+
+    return {
+      content: FIXTURE_RESPONSES[category][request.accessLevel],
+      confidence,
+      modelId: this.id,
+    }
+  }
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelStreamChunk> {
+    const result = await this.generate(request)
+    const words = result.content.match(/\S+\s*/g) ?? []
+
+    for (let i = 0; i < words.length; i++) {
+      if (request.signal?.aborted) return
+      const isLast = i === words.length - 1
+      yield {
+        delta: words[i],
+        confidence: isLast ? result.confidence : undefined,
+        modelId: isLast ? result.modelId : undefined,
+      }
+    }
+  }
+}
+
+/**
+ * Build the per-tier backend table from environment configuration.
+ * Tiers without a configured model fall back to the fixture backend.
+ */
+export function createDefaultBackends(): Record<AccessLevel, ModelBackend> {
+  const fixture = new FixtureBackend()
+  const apiKey = process.env.AI_OPENAI_API_KEY
+  const baseUrl = process.env.AI_OPENAI_BASE_URL || "https://api.openai.com/v1"
+  const localUrl = process.env.AI_LOCAL_MODEL_URL
+
+  const basic = localUrl
+    ? new LocalModelBackend({ baseUrl: localUrl, model: process.env.AI_MODEL_BASIC || "llama3.2:3b" })
+    : fixture
+
+  if (!apiKey) {
+    return { basic, premium: fixture, enterprise: fixture }
+  }
+
+  return {
+    basic,
+    premium: new OpenAICompatibleBackend({ baseUrl, apiKey, model: process.env.AI_MODEL_PREMIUM || "gpt-4o-mini" }),
+    enterprise: new OpenAICompatibleBackend({ baseUrl, apiKey, model: process.env.AI_MODEL_ENTERPRISE || "gpt-4o" }),
+  }
+}
@@ -0,0 +1,139 @@
+import type { AccessLevel, ModelMessage } from "./model-backends"
+import { countPromptTokens, defaultTokenizer, type Tokenizer } from "./tokenizer"
+
+/**
+ * Usage units charged per 1,000 tokens
+ */
+export interface ModelRate {
+  input: number
+  output: number
+}
+
+/**
+ * Declarative pricing: what a query costs in subscription usage units
+ */
+export interface PricingPolicy {
+  // Rate for models without an entry in `models`
+  defaultRate: ModelRate
+  // Keyed by backend id, e.g. "openai:gpt-4o" or "fixture"
+  models: Record<string, ModelRate>
+  // Applied after metering, e.g. 0.5 halves the charge for enterprise tiers
+  tierMultipliers: Record<AccessLevel, number>
+  // Smallest charge for a query that produced output
+  minimumCharge: number
+  // Output tokens assumed when quoting before generation
+  expectedOutputTokens: Record<AccessLevel, number>
+}
+
+export interface UsageQuote {
+  modelId: string
+  inputTokens: number
+  outputTokens: number
+  rate: ModelRate
+  multiplier: number
+  // usage units before rounding and the minimum charge
+  metered: number
+  // usage units debited from the subscription
+  units: number
+}
+
+export const DEFAULT_PRICING_POLICY: PricingPolicy = {
+  defaultRate: { input: 2, output: 4 },
+  models: {
+    fixture: { input: 2, output: 4 },
+    "openai:gpt-4o-mini": { input: 1, output: 4 },
+    "openai:gpt-4o": { input: 5, output: 15 },
+  },
+  tierMultipliers: { basic: 1, premium: 0.8, enterprise: 0.5 },
+  minimumCharge: 1,
+  expectedOutputTokens: { basic: 256, premium: 512, enterprise: 1024 },
+}
+
+function isRate(value: any): value is ModelRate {
+  return (
+    typeof value?.input === "number" && value.input >= 0 && typeof value?.output === "number" && value.output >= 0
+  )
+}
+
+/**
+ * Parse a pricing config, filling anything it omits from the defaults. Throws on malformed rates.
+ */
+export function parsePricingPolicy(json: string): PricingPolicy {
+  const raw = JSON.parse(json)
+  const policy: PricingPolicy = {
+    defaultRate: raw.defaultRate ?? DEFAULT_PRICING_POLICY.defaultRate,
+    models: { ...DEFAULT_PRICING_POLICY.models, ...raw.models },
+    tierMultipliers: { ...DEFAULT_PRICING_POLICY.tierMultipliers, ...raw.tierMultipliers },
+    minimumCharge: raw.minimumCharge ?? DEFAULT_PRICING_POLICY.minimumCharge,
+    expectedOutputTokens: { ...DEFAULT_PRICING_POLICY.expectedOutputTokens, ...raw.expectedOutputTokens },
+  }
+
+  if (!isRate(policy.defaultRate)) {
+    throw new TypeError("Pricing defaultRate must have non-negative input and output rates")
+  }
+  for (const [modelId, rate] of Object.entries(policy.models)) {
+    if (!isRate(rate)) {
+      throw new TypeError(`Pricing rate for ${modelId} must have non-negative input and output rates`)
+    }
+  }
+  for (const [level, multiplier] of Object.entries(policy.tierMultipliers)) {
+    if (typeof multiplier !== "number" || multiplier < 0) {
+      throw new TypeError(`Pricing multiplier for ${level} must be a non-negative number`)
+    }
+  }
+  if (!Number.isInteger(policy.minimumCharge) || policy.minimumCharge < 0) {
+    throw new TypeError("Pricing minimumCharge must be a non-negative integer")
+  }
+
+  return policy
+}
+
+/**
+ * Meters queries against a PricingPolicy. Charges are whole usage units since quota is counted on-chain in units.
+ */
+export class PricingEngine {
+  constructor(
+    readonly policy: PricingPolicy = DEFAULT_PRICING_POLICY,
+    private readonly tokenizer: Tokenizer = defaultTokenizer,
+  ) {}
+
+  price(modelId: string, accessLevel: AccessLevel, inputTokens: number, outputTokens: number): UsageQuote {
+    const rate = this.policy.models[modelId] ?? this.policy.defaultRate
+    const multiplier = this.policy.tierMultipliers[accessLevel]
+    // Rounded first so float noise such as 2.0000000001 does not bill an extra unit
+    const metered = Number((((inputTokens * rate.input + outputTokens * rate.output) / 1000) * multiplier).toFixed(6))
+
+    return {
+      modelId,
+      inputTokens,
+      outputTokens,
+      rate,
+      multiplier,
+      metered,
+      units: Math.max(this.policy.minimumCharge, Math.ceil(metered)),
+    }
+  }
+
+  /**
+   * Most output tokens a query can generate without its charge exceeding `units`
+   */
+  affordableOutputTokens(modelId: string, accessLevel: AccessLevel, inputTokens: number, units: number): number {
+    const rate = this.policy.models[modelId] ?? this.policy.defaultRate
+    const multiplier = this.policy.tierMultipliers[accessLevel]
+    if (rate.output === 0 || multiplier === 0) return Number.POSITIVE_INFINITY
+
+    return Math.max(0, Math.floor(((units / multiplier) * 1000 - inputTokens * rate.input) / rate.output))
+  }
+
+  /**
+   * Price a query before generation, assuming the tier's expected output length
+   */
+  estimate(modelId: string, accessLevel: AccessLevel, query: string, history: ModelMessage[] = []): UsageQuote {
+    return this.price(
+      modelId,
+      accessLevel,
+      countPromptTokens(this.tokenizer, query, history),
+      this.policy.expectedOutputTokens[accessLevel],
+    )
+  }
+}
@@ -1,6 +1,7 @@
 export class SecurityManager {
   private static instance: SecurityManager
   private rateLimitMap: Map<string, { count: number; resetTime: number }> = new Map()
+  private lastPrune = 0
   private suspiciousAddresses: Set<string> = new Set()
 
   static getInstance(): SecurityManager {
@@ -25,6 +26,7 @@ export class SecurityManager {
     const now = Date.now()
     const key = userAddress.toLowerCase()
     const current = this.rateLimitMap.get(key)
+    this.pruneRateLimits(now)
 
     if (!current || now > current.resetTime) {
       // Reset or initialize
@@ -44,6 +46,83 @@ export class SecurityManager {
     }
   }
 
+  /**
+   * Rate limiting per API key, counted separately from the holder's own wallet sessions
+   */
+  checkApiKeyRateLimit(keyId: string, maxRequests = 30, windowMs = 60000) {
+    return this.checkRateLimit(`apikey:${keyId}`, maxRequests, windowMs)
+  }
+
+  /**
+   * Per-minute burst limit and per-UTC-day cap (0 for none) on a user's queries. Both are checked
+   * before either is counted, so a query refused by one limit does not use up the other.
+   */
+  checkQueryLimits(
+    userAddress: string,
+    maxPerMinute: number,
+    dailyCap: number,
+  ): {
+    allowed: boolean
+    limit?: "burst" | "daily"
+    resetTime: number
+  } {
+    const now = Date.now()
+    const burstKey = `burst:${userAddress.toLowerCase()}`
+    const dailyKey = `daily:${userAddress.toLowerCase()}`
+
+    const burst = this.rateLimitMap.get(burstKey)
+    if (burst && now <= burst.resetTime && burst.count >= maxPerMinute) {
+      return { allowed: false, limit: "burst", resetTime: burst.resetTime }
+    }
+    const daily = this.rateLimitMap.get(dailyKey)
+    if (dailyCap > 0 && daily && now <= daily.resetTime && daily.count >= dailyCap) {
+      return { allowed: false, limit: "daily", resetTime: daily.resetTime }
+    }
+
+    // The daily window closes at the next UTC midnight
+    const today = new Date(now)
+    const midnight = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + 1)
+    const burstLimit = this.checkRateLimit(burstKey, maxPerMinute, 60000)
+    if (dailyCap > 0) {
+      this.checkRateLimit(dailyKey, dailyCap, midnight - now)
+    }
+    return { allowed: true, resetTime: burstLimit.resetTime }
+  }
+
+  /**
+   * Return a query counted by checkQueryLimits that never ran, e.g. because inference failed
+   */
+  refundQueryLimits(userAddress: string): void {
+    this.refundRateLimit(`burst:${userAddress}`)
+    this.refundRateLimit(`daily:${userAddress}`)
+  }
+
+  /**
+   * Return a request counted by checkApiKeyRateLimit that never ran
+   */
+  refundApiKeyRateLimit(keyId: string): void {
+    this.refundRateLimit(`apikey:${keyId}`)
+  }
+
+  private refundRateLimit(key: string): void {
+    const current = this.rateLimitMap.get(key.toLowerCase())
+    if (current && Date.now() <= current.resetTime && current.count > 0) {
+      current.count--
+    }
+  }
+
+  /**
+   * Drop rate limit windows that have closed, at most once a minute
+   */
+  private pruneRateLimits(now: number): void {
+    if (now - this.lastPrune < 60000) return
+
+    this.lastPrune = now
+    this.rateLimitMap.forEach((entry, key) => {
+      if (now > entry.resetTime) this.rateLimitMap.delete(key)
+    })
+  }
+
   /**
    * Mark address as suspicious for monitoring
    */
@@ -67,9 +146,11 @@ export class SecurityManager {
   }
 
   /**
-   * Generate secure session ID
+   * Generate a cryptographically random session ID (used as the SIWE session token)
    */
   generateSecureSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substring(2)}`
+    const bytes = new Uint8Array(32)
+    crypto.getRandomValues(bytes)
+    return `session_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
   }
 }
@@ -0,0 +1,282 @@
+import { ethers } from "ethers"
+import { SecurityManager } from "./security"
+
+export interface SiweMessageFields {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: string
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+}
+
+export interface SiweSession {
+  token: string
+  address: string
+  chainId: number
+  issuedAt: number
+  expiresAt: number
+}
+
+/**
+ * Values a SIWE message must be bound to; configured server-side, never taken from the request
+ */
+export interface SiweExpectations {
+  domain: string
+  // origin the message's URI must belong to
+  uri: string
+  chainId: number
+}
+
+export const SIWE_STATEMENT = "Sign in to the DAT AI Agent to spend your subscription quota."
+export const SIWE_VERSION = "1"
+
+const NONCE_TTL_MS = 5 * 60 * 1000
+const SESSION_TTL_MS = 15 * 60 * 1000
+
+/**
+ * Render an EIP-4361 message
+ */
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [`${fields.domain} wants you to sign in with your Ethereum account:`, fields.address, ""]
+
+  if (fields.statement) {
+    lines.push(fields.statement, "")
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  )
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`)
+  }
+  if (fields.notBefore) {
+    lines.push(`Not Before: ${fields.notBefore}`)
+  }
+
+  return lines.join("\n")
+}
+
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split("\n")
+  const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/)
+  if (!header || !ethers.isAddress(lines[1])) {
+    return null
+  }
+
+  const fields: Record<string, string> = {}
+  for (const line of lines.slice(2)) {
+    const match = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time|Not Before): (.+)$/)
+    if (match) fields[match[1]] = match[2]
+  }
+
+  const statement = lines[2] === "" && lines[3] && !lines[3].startsWith("URI: ") ? lines[3] : undefined
+
+  if (!fields["URI"] || !fields["Version"] || !fields["Chain ID"] || !fields["Nonce"] || !fields["Issued At"]) {
+    return null
+  }
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    statement,
+    uri: fields["URI"],
+    version: fields["Version"],
+    chainId: Number(fields["Chain ID"]),
+    nonce: fields["Nonce"],
+    issuedAt: fields["Issued At"],
+    expirationTime: fields["Expiration Time"],
+    notBefore: fields["Not Before"],
+  }
+}
+
+/**
+ * Expected SIWE domain, URI and chain from SIWE_DOMAIN, SIWE_URI and NEXT_PUBLIC_DAT_CHAIN_ID
+ */
+export function getSiweExpectations(): SiweExpectations {
+  const domain = process.env.SIWE_DOMAIN || "localhost:3000"
+  return {
+    domain,
+    uri: process.env.SIWE_URI || `http://${domain}`,
+    chainId: Number(process.env.NEXT_PUBLIC_DAT_CHAIN_ID || 1),
+  }
+}
+
+function originOf(uri: string): string | null {
+  try {
+    return new URL(uri).origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Server-side Sign-In-With-Ethereum nonce issuance, verification and session store
+ */
+export class SiweAuthManager {
+  private static instance: SiweAuthManager
+  private nonces: Map<string, number> = new Map()
+  private sessions: Map<string, SiweSession> = new Map()
+
+  static getInstance(): SiweAuthManager {
+    if (!SiweAuthManager.instance) {
+      SiweAuthManager.instance = new SiweAuthManager()
+    }
+    return SiweAuthManager.instance
+  }
+
+  issueNonce(): string {
+    this.pruneExpired()
+
+    const nonce = ethers.hexlify(ethers.randomBytes(16)).slice(2)
+    this.nonces.set(nonce, Date.now() + NONCE_TTL_MS)
+    return nonce
+  }
+
+  /**
+   * Verify a signed SIWE message and open a short-lived session for the signer
+   */
+  verify(
+    message: string,
+    signature: string,
+    expected: SiweExpectations,
+  ): {
+    success: boolean
+    session?: SiweSession
+    error?: string
+  } {
+    const fields = parseSiweMessage(message)
+    if (!fields) {
+      return { success: false, error: "Malformed SIWE message" }
+    }
+
+    if (fields.domain !== expected.domain) {
+      return { success: false, error: "SIWE domain mismatch" }
+    }
+    if (originOf(fields.uri) === null || originOf(fields.uri) !== originOf(expected.uri)) {
+      return { success: false, error: "SIWE URI mismatch" }
+    }
+    if (fields.version !== SIWE_VERSION) {
+      return { success: false, error: `Unsupported SIWE version ${fields.version}` }
+    }
+    if (fields.chainId !== expected.chainId) {
+      return { success: false, error: `SIWE chain ID must be ${expected.chainId}` }
+    }
+
+    // Date.parse yields NaN for an unparsable time, which would pass every comparison below
+    const issuedAt = Date.parse(fields.issuedAt)
+    const expiresAt = fields.expirationTime === undefined ? undefined : Date.parse(fields.expirationTime)
+    const notBefore = fields.notBefore === undefined ? undefined : Date.parse(fields.notBefore)
+    if ([issuedAt, expiresAt, notBefore].some((time) => time !== undefined && !Number.isFinite(time))) {
+      return { success: false, error: "Invalid SIWE timestamp" }
+    }
+
+    if (!this.consumeNonce(fields.nonce)) {
+      return { success: false, error: "Invalid or expired nonce" }
+    }
+
+    const now = Date.now()
+    if (issuedAt > now + 60000) {
+      return { success: false, error: "SIWE message issued in the future" }
+    }
+    if (expiresAt !== undefined && expiresAt < now) {
+      return { success: false, error: "SIWE message expired" }
+    }
+    if (notBefore !== undefined && notBefore > now + 60000) {
+      return { success: false, error: "SIWE message not yet valid" }
+    }
+
+    let signer: string
+    try {
+      signer = ethers.verifyMessage(message, signature)
+    } catch {
+      return { success: false, error: "Invalid signature" }
+    }
+
+    if (signer !== ethers.getAddress(fields.address)) {
+      return { success: false, error: "Signature does not match address" }
+    }
+
+    const session: SiweSession = {
+      token: SecurityManager.getInstance().generateSecureSessionId(),
+      address: signer,
+      chainId: fields.chainId,
+      issuedAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    }
+    this.sessions.set(session.token, session)
+
+    return { success: true, session }
+  }
+
+  /**
+   * Nonces are single use, whether or not the message they were issued for verifies
+   */
+  consumeNonce(nonce: string): boolean {
+    const nonceExpiry = this.nonces.get(nonce)
+    this.nonces.delete(nonce)
+    return !!nonceExpiry && nonceExpiry >= Date.now()
+  }
+
+  resolveSession(token: string): SiweSession | null {
+    const session = this.sessions.get(token)
+    if (!session) return null
+
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(token)
+      return null
+    }
+    return session
+  }
+
+  revokeSession(token: string): void {
+    this.sessions.delete(token)
+  }
+
+  private pruneExpired() {
+    const now = Date.now()
+    this.nonces.forEach((expiry, nonce) => {
+      if (expiry < now) this.nonces.delete(nonce)
+    })
+    this.sessions.forEach((session, token) => {
+      if (session.expiresAt < now) this.sessions.delete(token)
+    })
+  }
+}
+
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization")
+  return header?.startsWith("Bearer ") ? header.slice(7) : null
+}
+
+/**
+ * Resolve the wallet address behind a session token: directly on the server,
+ * via the session route in the browser
+ */
+export async function resolveSessionAddress(token: string): Promise<string | null> {
+  if (!token) return null
+
+  if (typeof window === "undefined") {
+    return SiweAuthManager.getInstance().resolveSession(token)?.address ?? null
+  }
+
+  try {
+    const res = await fetch("/api/auth/session", { headers: { Authorization: `Bearer ${token}` } })
+    if (!res.ok) return null
+
+    const data = await res.json()
+    return typeof data.address === "string" ? data.address : null
+  } catch (error) {
+    console.error("Error resolving SIWE session:", error)
+    return null
+  }
+}
@@ -0,0 +1,39 @@
+import type { ModelMessage } from "./model-backends"
+
+export interface Tokenizer {
+  readonly id: string
+  count(text: string): number
+}
+
+// GPT-style pre-tokenization: contractions, words, up to three digits, punctuation runs, whitespace
+const PRE_TOKENIZE = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu
+
+/**
+ * Offline approximation of a BPE tokenizer. Text is split the way cl100k pre-tokenizes it and
+ * each piece is costed by length: words merge into longer tokens than digits and punctuation do.
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  readonly id = "approx-cl100k"
+
+  count(text: string): number {
+    let tokens = 0
+    for (const [piece] of Array.from(text.matchAll(PRE_TOKENIZE))) {
+      const word = piece.trimStart()
+      if (!word) {
+        tokens += 1
+      } else {
+        tokens += Math.max(1, Math.ceil(word.length / (/^\p{L}/u.test(word) ? 6 : 4)))
+      }
+    }
+    return tokens
+  }
+}
+
+export const defaultTokenizer: Tokenizer = new ApproximateTokenizer()
+
+/**
+ * Prompt tokens of a query and the conversation context sent with it
+ */
+export function countPromptTokens(tokenizer: Tokenizer, query: string, history: ModelMessage[] = []): number {
+  return history.reduce((sum, message) => sum + tokenizer.count(message.content), tokenizer.count(query))
+}
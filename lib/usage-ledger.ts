@@ -0,0 +1,468 @@
+import { ethers } from "ethers"
+import { decodeDelegatedAccess, decodeSubscriptionTokens } from "./contracts"
+
+interface LedgerAccount {
+  userAddress: string
+  // Token usage is drawn from next; settlement spills into later tokens once it runs out
+  tokenId: string
+  // Combined remaining usage of the user's valid tokens as last observed or settled
+  onChainRemaining: number
+  // Usage is drawn from another holder's token through a delegation, capped by its quota
+  delegated: boolean
+  // Usage is charged to tokenId alone, as for API keys bound to one token
+  pinned: boolean
+  // Held by queries still in flight, see reserve()
+  reserved: number
+  // Debited locally, not yet submitted
+  pending: number
+  // Submitted in the settlement currently in flight
+  settling: number
+}
+
+interface UsageReservation {
+  accountKey: string
+  amount: number
+}
+
+// A user's own account is keyed by address; accounts pinned to one token by address and token
+function accountKey(userAddress: string, pinnedTokenId?: string): string {
+  const key = userAddress.toLowerCase()
+  return pinnedTokenId === undefined ? key : `${key}:${pinnedTokenId}`
+}
+
+export interface UsageDrift {
+  userAddress: string
+  tokenId: string
+  expectedOnChain: number
+  actualOnChain: number
+  drift: number
+}
+
+export interface SettlementResult {
+  success: boolean
+  settledUsers: number
+  settledAmount: number
+  transactionHash?: string
+  // consumeTokenUsageBatch transaction, when usage pinned to a token was settled
+  pinnedTransactionHash?: string
+  // consumeDelegatedUsageBatch transaction, when delegated usage was settled
+  delegatedTransactionHash?: string
+  error?: string
+}
+
+/**
+ * Off-chain usage ledger. A query reserves its estimated cost before inference and commits
+ * the metered cost afterwards, so concurrent queries can never spend more than the locally
+ * known balance. Committed usage is settled on-chain in aggregated batches via
+ * consumeUsageBatch, consumeTokenUsageBatch for usage pinned to one token, or
+ * consumeDelegatedUsageBatch for usage drawn through a delegation.
+ */
+export class UsageLedger {
+  private accounts: Map<string, LedgerAccount> = new Map()
+  private reservations: Map<string, UsageReservation> = new Map()
+  private settleTimer: ReturnType<typeof setTimeout> | null = null
+  private settling: Promise<SettlementResult> | null = null
+
+  constructor(
+    private contract: ethers.Contract | null,
+    private readonly settlementIntervalMs = 5 * 60 * 1000,
+  ) {}
+
+  /**
+   * Record the on-chain remaining usage read across a user's valid tokens, or through a delegation
+   */
+  observe(userAddress: string, tokenId: string, onChainRemaining: number, delegated = false): void {
+    const key = userAddress.toLowerCase()
+    const account = this.accounts.get(key)
+
+    if (!account || (account.settling === 0 && (account.tokenId !== tokenId || account.delegated !== delegated))) {
+      // consumeUsageBatch charges the user's current valid token, so unsettled usage carries over.
+      // An account with a settlement in flight keeps its balance until the settlement lands.
+      this.accounts.set(key, {
+        userAddress: key,
+        tokenId,
+        onChainRemaining,
+        delegated,
+        pinned: false,
+        reserved: account?.reserved ?? 0,
+        pending: account?.pending ?? 0,
+        settling: account?.settling ?? 0,
+      })
+      return
+    }
+
+    // Balances are only rebased while no settlement for the account is in flight
+    if (account.settling === 0 && account.onChainRemaining !== onChainRemaining) {
+      console.warn(
+        `[Usage Ledger] Drift for ${userAddress} token ${tokenId}: expected ${account.onChainRemaining}, on-chain ${onChainRemaining}`,
+      )
+      account.onChainRemaining = onChainRemaining
+    }
+  }
+
+  /**
+   * Record the on-chain remaining usage of one token that usage is charged to directly
+   */
+  observeToken(userAddress: string, tokenId: string, onChainRemaining: number): void {
+    const key = accountKey(userAddress, tokenId)
+    const account = this.accounts.get(key)
+
+    if (!account) {
+      this.accounts.set(key, {
+        userAddress: userAddress.toLowerCase(),
+        tokenId,
+        onChainRemaining,
+        delegated: false,
+        pinned: true,
+        reserved: 0,
+        pending: 0,
+        settling: 0,
+      })
+      return
+    }
+
+    if (account.settling === 0 && account.onChainRemaining !== onChainRemaining) {
+      console.warn(
+        `[Usage Ledger] Drift for ${userAddress} pinned token ${tokenId}: expected ${account.onChainRemaining}, on-chain ${onChainRemaining}`,
+      )
+      account.onChainRemaining = onChainRemaining
+    }
+  }
+
+  /**
+   * Free balance of a user's account, or of their account pinned to one token. Pinned usage
+   * comes out of the same tokens the user's own queries drain, so each leaves room for the other.
+   */
+  getRemaining(userAddress: string, pinnedTokenId?: string): number | null {
+    const account = this.accounts.get(accountKey(userAddress, pinnedTokenId))
+    return account ? this.remainingOf(account) : null
+  }
+
+  private remainingOf(account: LedgerAccount): number {
+    const outstanding = (entry: LedgerAccount) => entry.reserved + entry.pending + entry.settling
+    const pinnedOutstanding = Array.from(this.accounts.values())
+      .filter((entry) => entry.pinned && entry.userAddress === account.userAddress)
+      .reduce((sum, entry) => sum + outstanding(entry), 0)
+
+    const own = this.accounts.get(account.userAddress)
+    const ownFree =
+      own && !own.delegated ? own.onChainRemaining - outstanding(own) - pinnedOutstanding : Number.POSITIVE_INFINITY
+    if (!account.pinned) {
+      return Math.max(0, account.delegated ? account.onChainRemaining - outstanding(account) : ownFree)
+    }
+
+    return Math.max(0, Math.min(account.onChainRemaining - outstanding(account), ownFree))
+  }
+
+  /**
+   * Hold usage for a query about to run, refusing to overdraw the local balance.
+   * The hold is settled with commit() once the query is metered, or returned with release().
+   */
+  reserve(
+    userAddress: string,
+    amount: number,
+    pinnedTokenId?: string,
+  ): {
+    success: boolean
+    reservationId?: string
+    remaining: number
+    error?: string
+  } {
+    const key = accountKey(userAddress, pinnedTokenId)
+    const account = this.accounts.get(key)
+    if (!account) {
+      return { success: false, remaining: 0, error: "No usage account for user" }
+    }
+
+    const remaining = this.remainingOf(account)
+    if (amount > remaining) {
+      return { success: false, remaining, error: "Insufficient usage quota" }
+    }
+
+    const reservationId = crypto.randomUUID()
+    account.reserved += amount
+    this.reservations.set(reservationId, { accountKey: key, amount })
+
+    return { success: true, reservationId, remaining: remaining - amount }
+  }
+
+  /**
+   * Replace a reservation with the metered charge. A charge above the hold is drawn from the
+   * free balance but capped by it, so the debit never exceeds what can settle on-chain.
+   */
+  commit(
+    reservationId: string,
+    amount: number,
+  ): {
+    success: boolean
+    charged: number
+    remaining: number
+    error?: string
+  } {
+    const reservation = this.takeReservation(reservationId)
+    if (!reservation) {
+      return { success: false, charged: 0, remaining: 0, error: "Unknown or already settled reservation" }
+    }
+
+    const account = this.accounts.get(reservation.accountKey)!
+    const available = this.remainingOf(account)
+    const charged = Math.min(amount, available)
+    if (charged < amount) {
+      console.warn(
+        `[Usage Ledger] Capped charge for ${reservation.accountKey} at ${charged} of ${amount} metered, reserved ${reservation.amount}`,
+      )
+    }
+
+    if (charged > 0) {
+      account.pending += charged
+      this.scheduleSettlement()
+    }
+
+    return { success: true, charged, remaining: available - charged }
+  }
+
+  /**
+   * Return a reservation's hold to the balance, e.g. when inference failed
+   */
+  release(reservationId: string): boolean {
+    return this.takeReservation(reservationId) !== null
+  }
+
+  getReservedTotal(): number {
+    return Array.from(this.accounts.values()).reduce((sum, account) => sum + account.reserved, 0)
+  }
+
+  getPendingTotal(): number {
+    return Array.from(this.accounts.values()).reduce((sum, account) => sum + account.pending, 0)
+  }
+
+  /**
+   * Submit all pending debits as one consumeUsageBatch transaction, plus one
+   * consumeDelegatedUsageBatch transaction for delegated accounts
+   */
+  async settle(): Promise<SettlementResult> {
+    // Another caller may start a settlement while this one waits, so wait until none is in flight
+    while (this.settling) {
+      await this.settling
+    }
+
+    const batch = Array.from(this.accounts.values()).filter((account) => account.pending > 0)
+    if (batch.length === 0) {
+      return { success: true, settledUsers: 0, settledAmount: 0 }
+    }
+
+    batch.forEach((account) => {
+      account.settling = account.pending
+      account.pending = 0
+    })
+
+    this.settling = this.submit(batch)
+    try {
+      return await this.settling
+    } finally {
+      this.settling = null
+    }
+  }
+
+  /**
+   * Compare the ledger's expected on-chain balances with the contract and rebase on drift
+   */
+  async reconcile(): Promise<UsageDrift[]> {
+    if (!this.contract) return []
+
+    const drifts: UsageDrift[] = []
+
+    for (const account of Array.from(this.accounts.values())) {
+      if (account.settling > 0) continue
+
+      try {
+        if (account.pinned) {
+          const token = decodeSubscriptionTokens(await this.contract.getUserSubscriptions(account.userAddress)).find(
+            (candidate) => candidate.tokenId === account.tokenId,
+          )
+          const actual = token?.isValid ? token.remainingUsage : 0
+          if (actual !== account.onChainRemaining) {
+            drifts.push({
+              userAddress: account.userAddress,
+              tokenId: account.tokenId,
+              expectedOnChain: account.onChainRemaining,
+              actualOnChain: actual,
+              drift: actual - account.onChainRemaining,
+            })
+            account.onChainRemaining = actual
+          }
+          continue
+        }
+
+        if (account.delegated) {
+          // Remaining usage under a delegation is capped by the grant, so compare the granted token only
+          const grant = decodeDelegatedAccess(await this.contract.getDelegatedAccess(account.userAddress)).find(
+            (access) => access.tokenId === account.tokenId,
+          )
+          const actual = grant?.remainingUsage ?? 0
+          if (actual !== account.onChainRemaining) {
+            drifts.push({
+              userAddress: account.userAddress,
+              tokenId: account.tokenId,
+              expectedOnChain: account.onChainRemaining,
+              actualOnChain: actual,
+              drift: actual - account.onChainRemaining,
+            })
+            account.onChainRemaining = actual
+          }
+          continue
+        }
+
+        const tokens = decodeSubscriptionTokens(await this.contract.getUserSubscriptions(account.userAddress))
+        const validTokens = tokens.filter((token) => token.isValid)
+        if (validTokens.length === 0) continue
+
+        // Settlement may have exhausted the token the account was observed on
+        account.tokenId = validTokens[0].tokenId
+        const actual = validTokens.reduce((sum, token) => sum + token.remainingUsage, 0)
+        if (actual !== account.onChainRemaining) {
+          drifts.push({
+            userAddress: account.userAddress,
+            tokenId: account.tokenId,
+            expectedOnChain: account.onChainRemaining,
+            actualOnChain: actual,
+            drift: actual - account.onChainRemaining,
+          })
+          account.onChainRemaining = actual
+        }
+      } catch (error) {
+        console.error(`[Usage Ledger] Error reconciling ${account.userAddress}:`, error)
+      }
+    }
+
+    if (drifts.length > 0) {
+      console.warn(`[Usage Ledger] Reconciliation found drift: ${JSON.stringify(drifts)}`)
+    }
+
+    return drifts
+  }
+
+  private takeReservation(reservationId: string): UsageReservation | null {
+    const reservation = this.reservations.get(reservationId)
+    if (!reservation) return null
+
+    this.reservations.delete(reservationId)
+    const account = this.accounts.get(reservation.accountKey)
+    if (account) {
+      account.reserved = Math.max(0, account.reserved - reservation.amount)
+    }
+    return reservation
+  }
+
+  private scheduleSettlement() {
+    if (this.settleTimer) return
+
+    this.settleTimer = setTimeout(async () => {
+      this.settleTimer = null
+      const result = await this.settle()
+      if (result.success && result.settledUsers > 0) {
+        await this.reconcile()
+      }
+    }, this.settlementIntervalMs)
+  }
+
+  private async submit(batch: LedgerAccount[]): Promise<SettlementResult> {
+    const direct = batch.filter((account) => !account.delegated && !account.pinned)
+    const pinned = batch.filter((account) => account.pinned)
+    const delegated = batch.filter((account) => account.delegated)
+
+    // Sent one after the other so the settlement signer's nonces stay in order
+    const directResult =
+      direct.length > 0
+        ? await this.submitGroup(direct, "consumeUsageBatch", (contract, amounts) =>
+            contract.consumeUsageBatch(
+              direct.map((account) => account.userAddress),
+              amounts,
+            ),
+          )
+        : null
+    const pinnedResult =
+      pinned.length > 0
+        ? await this.submitGroup(pinned, "consumeTokenUsageBatch", (contract, amounts) =>
+            contract.consumeTokenUsageBatch(
+              pinned.map((account) => account.userAddress),
+              pinned.map((account) => account.tokenId),
+              amounts,
+            ),
+          )
+        : null
+    const delegatedResult =
+      delegated.length > 0
+        ? await this.submitGroup(delegated, "consumeDelegatedUsageBatch", (contract, amounts) =>
+            contract.consumeDelegatedUsageBatch(
+              delegated.map((account) => account.userAddress),
+              delegated.map((account) => account.tokenId),
+              amounts,
+            ),
+          )
+        : null
+    const settled = [directResult, pinnedResult, delegatedResult].filter((result): result is SettlementResult => result !== null)
+    const failed = settled.find((result) => !result.success)
+
+    return {
+      success: !failed,
+      settledUsers: settled.reduce((sum, result) => sum + result.settledUsers, 0),
+      settledAmount: settled.reduce((sum, result) => sum + result.settledAmount, 0),
+      transactionHash: directResult?.transactionHash,
+      pinnedTransactionHash: pinnedResult?.transactionHash,
+      delegatedTransactionHash: delegatedResult?.transactionHash,
+      error: failed?.error,
+    }
+  }
+
+  /**
+   * Settle one group of accounts in a single transaction. A failure only returns this
+   * group's debits to pending, so a batch that did land is never charged twice.
+   */
+  private async submitGroup(
+    accounts: LedgerAccount[],
+    method: string,
+    send: (contract: ethers.Contract, amounts: number[]) => Promise<ethers.ContractTransactionResponse>,
+  ): Promise<SettlementResult> {
+    const amounts = accounts.map((account) => account.settling)
+    const settledAmount = amounts.reduce((sum, amount) => sum + amount, 0)
+
+    let transactionHash: string
+    if (!this.contract) {
+      transactionHash = `demo_settlement_${Date.now()}`
+      console.log(
+        `[Usage Ledger] Demo mode - simulated ${method} of ${settledAmount} usage for ${accounts.length} users`,
+      )
+    } else {
+      try {
+        const tx = await send(this.contract, amounts)
+        const receipt = await tx.wait()
+        transactionHash = receipt!.hash
+        console.log(
+          `[Usage Ledger] Settled ${settledAmount} usage for ${accounts.length} users via ${method}, tx: ${transactionHash}`,
+        )
+      } catch (error: any) {
+        console.error(`[Usage Ledger] ${method} settlement failed:`, error)
+        // Return the debits to pending so they are retried next interval
+        accounts.forEach((account) => {
+          account.pending += account.settling
+          account.settling = 0
+        })
+        this.scheduleSettlement()
+        return { success: false, settledUsers: 0, settledAmount: 0, error: error?.message }
+      }
+    }
+
+    accounts.forEach((account) => {
+      account.onChainRemaining -= account.settling
+      // The pinned token is one of the user's own, so their combined balance drops too
+      const own = account.pinned ? this.accounts.get(account.userAddress) : undefined
+      if (own && !own.delegated) {
+        own.onChainRemaining = Math.max(0, own.onChainRemaining - account.settling)
+      }
+      account.settling = 0
+    })
+
+    return { success: true, settledUsers: accounts.length, settledAmount, transactionHash }
+  }
+}
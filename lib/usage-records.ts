@@ -0,0 +1,49 @@
+export interface QueryUsageRecord {
+  id: string
+  userAddress: string
+  // Token the usage is charged to; the delegating owner's token for delegated access
+  tokenId: string
+  sessionId: string
+  // Backend that served the query, as priced
+  modelId: string
+  promptTokens: number
+  completionTokens: number
+  // "provider" when the model reported its own counts, "tokenizer" when metered locally
+  tokenSource: "provider" | "tokenizer"
+  // usage units debited
+  units: number
+  // unix seconds, like on-chain event timestamps
+  timestamp: number
+  apiKeyId?: string
+  aborted?: boolean
+}
+
+const MAX_RECORDS_PER_USER = 1000
+
+/**
+ * Per-query metering records. Usage is settled on-chain in aggregated batches, so this is
+ * the only place token counts and model ids are kept for each individual query.
+ */
+export class UsageRecordStore {
+  private records: Map<string, QueryUsageRecord[]> = new Map()
+
+  record(entry: Omit<QueryUsageRecord, "id">): QueryUsageRecord {
+    const key = entry.userAddress.toLowerCase()
+    const record: QueryUsageRecord = { ...entry, id: crypto.randomUUID() }
+    const userRecords = this.records.get(key) ?? []
+
+    userRecords.push(record)
+    this.records.set(key, userRecords.slice(-MAX_RECORDS_PER_USER))
+    return record
+  }
+
+  /**
+   * A user's records, most recent first
+   */
+  list(userAddress: string): QueryUsageRecord[] {
+    return [...(this.records.get(userAddress.toLowerCase()) ?? [])].reverse()
+  }
+}
+
+// Shared store so records survive AIAgent re-instantiation
+export const usageRecordStore = new UsageRecordStore()
@@ -1,4 +1,5 @@
 import { ethers } from "ethers"
+import { buildSiweMessage, SIWE_STATEMENT, SIWE_VERSION } from "./siwe"
 
 export type WalletProvider = "metamask" | "walletconnect" | "coinbase" | "injected"
 
@@ -10,6 +11,8 @@ export interface WalletState {
   provider: WalletProvider | null
   isConnecting: boolean
   error: string | null
+  sessionToken: string | null
+  sessionExpiresAt: number | null
 }
 
 export interface NetworkConfig {
@@ -60,6 +63,8 @@ export class WalletManager {
     provider: null,
     isConnecting: false,
     error: null,
+    sessionToken: null,
+    sessionExpiresAt: null,
   }
 
   constructor() {
@@ -78,7 +83,8 @@ export class WalletManager {
     if (accounts.length === 0) {
       this.disconnect()
     } else if (accounts[0] !== this.state.address) {
-      this.updateState({ address: accounts[0] })
+      // A SIWE session is bound to the address that signed it
+      this.updateState({ address: accounts[0], sessionToken: null, sessionExpiresAt: null })
       this.updateBalance(accounts[0])
     }
     this.emit("accountsChanged", accounts)
@@ -205,11 +211,87 @@ export class WalletManager {
       chainId: null,
       provider: null,
       error: null,
+      sessionToken: null,
+      sessionExpiresAt: null,
     })
 
     this.emit("disconnected")
   }
 
+  /**
+   * Sign-In-With-Ethereum (EIP-4361) against the agent's auth routes
+   */
+  async signIn(): Promise<{
+    success: boolean
+    token?: string
+    error?: string
+  }> {
+    if (!this.signer || !this.state.address) {
+      return { success: false, error: "Wallet not connected" }
+    }
+
+    try {
+      const nonceRes = await fetch("/api/auth/nonce")
+      const { nonce } = await nonceRes.json()
+
+      const issuedAt = new Date()
+      const message = buildSiweMessage({
+        domain: window.location.host,
+        address: ethers.getAddress(this.state.address),
+        statement: SIWE_STATEMENT,
+        uri: window.location.origin,
+        version: SIWE_VERSION,
+        chainId: this.state.chainId ?? 1,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: new Date(issuedAt.getTime() + 10 * 60 * 1000).toISOString(),
+      })
+      const signature = await this.signer.signMessage(message)
+
+      const verifyRes = await fetch("/api/auth/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature }),
+      })
+      const data = await verifyRes.json()
+
+      if (!verifyRes.ok) {
+        throw new Error(data.error || "Sign-in failed")
+      }
+
+      this.updateState({ sessionToken: data.token, sessionExpiresAt: data.expiresAt })
+      this.emit("signedIn", { address: data.address, expiresAt: data.expiresAt })
+
+      return { success: true, token: data.token }
+    } catch (error: any) {
+      console.error("Sign-in error:", error)
+      const errorMessage = error.code === 4001 ? "Sign-in rejected by user" : error.message || "Sign-in failed"
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  async signOut() {
+    const token = this.state.sessionToken
+    this.updateState({ sessionToken: null, sessionExpiresAt: null })
+
+    if (token) {
+      try {
+        await fetch("/api/auth/session", { method: "DELETE", headers: { Authorization: `Bearer ${token}` } })
+      } catch (error) {
+        console.error("Sign-out error:", error)
+      }
+    }
+
+    this.emit("signedOut")
+  }
+
+  getSessionToken(): string | null {
+    if (this.state.sessionExpiresAt && this.state.sessionExpiresAt < Date.now()) {
+      this.updateState({ sessionToken: null, sessionExpiresAt: null })
+    }
+    return this.state.sessionToken
+  }
+
   async updateBalance(address: string): Promise<string> {
     if (!this.provider || !address) return "0"
 